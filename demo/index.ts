@@ -17,7 +17,7 @@ const camera = new Camera("camera", engine, { position: new Vector2D(50, 50), zo
 
 const scene = new Scene("SceneA", engine, camera, { position: new Vector2D(10, 10), scale: new Vector2D(1000, 1000), background: "#110022" });
 
-const actorA = new Actor("actorA", scene, { position: new Vector2D(150, 150), scale: new Vector2D(64, 64), isDebugEnabled: true });
+const actorA = new Actor("actorA", scene, { position: new Vector2D(150, 150), scale: new Vector2D(64, 64), drag: 0.6, maxSpeed: 500, isDebugEnabled: true });
 
 actorA.preload = async () => {
   const bitmap = await engine.textureHandler.registerTextureFromPath("character", characterSpritemap);
@@ -33,19 +33,10 @@ actorA.registerEventCallback("onkeydown", (e) => {
 });
 
 actorA.registerEventCallback("whilekeydown", (e) => {
-  if (e.key === "ArrowRight") actorA.velocity.x += 0.01;
-  if (e.key === "ArrowLeft") actorA.velocity.x += -0.01;
-  if (e.key === "ArrowUp") actorA.velocity.y += -0.01;
-  if (e.key === "ArrowDown") actorA.velocity.y += 0.01;
-
-  actorA.velocity.x = Math.min(Math.max(actorA.velocity.x, -0.5), 0.5);
-  actorA.velocity.y = Math.min(Math.max(actorA.velocity.y, -0.5), 0.5);
-});
-
-actorA.registerEventCallback("ontick", (e) => {
-  actorA.velocity = actorA.velocity.multiply(0.99);
-
-  actorA.position = actorA.position.add(actorA.velocity.multiply(e.deltaTime));
+  if (e.key === "ArrowRight") actorA.velocity.x += 10;
+  if (e.key === "ArrowLeft") actorA.velocity.x += -10;
+  if (e.key === "ArrowUp") actorA.velocity.y += -10;
+  if (e.key === "ArrowDown") actorA.velocity.y += 10;
 });
 
 camera.registerEventCallback("whilekeydown", (e) => {
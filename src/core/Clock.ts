@@ -0,0 +1,55 @@
+/**
+ * A clock backed by the browser's high-resolution timer. Used by the engine
+ * when no other clock is provided.
+ */
+export class RealtimeClock implements Clockable {
+  /**
+   * Returns the current high-res timestamp in milliseconds.
+   *
+   * @returns {number} the current time in milliseconds
+   */
+  now = (): number => performance.now();
+}
+
+/**
+ * A clock that only moves forward when told to. Used by headless engines to
+ * drive ticks deterministically, independent of wall time.
+ */
+export default class ManualClock implements Clockable {
+  /**
+   * The current time of the clock in milliseconds.
+   *
+   * @private
+   * @default 0
+   */
+  private time: number;
+
+  /**
+   * Creates a new ManualClock instance.
+   *
+   * @param {number} startTime the time to start the clock at, in milliseconds
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  /**
+   * Returns the current time of the clock.
+   *
+   * @returns {number} the current time in milliseconds
+   */
+  now = (): number => this.time;
+
+  /**
+   * Moves the clock forward by a given amount of time.
+   *
+   * @param {number} milliseconds the amount of time to move forward by
+   *
+   * @throws {RangeError} if the amount of time is negative
+   */
+  advance = (milliseconds: number): void => {
+    if (milliseconds < 0) throw new RangeError("Clock cannot be advanced by a negative amount of time.");
+
+    this.time += milliseconds;
+  };
+}
@@ -3,9 +3,17 @@ import EventHandler from "@/util/EventHandler";
 import Vector2D from "@/math/Vector2D";
 import TextureHandler from "@/util/TextureHandler";
 import ParameterGUI from "./gui";
-
-const TARGET_FPS: number = 60;
-const MAX_UPDATES_PER_FRAME: number = 240;
+import ManualClock, { RealtimeClock } from "./Clock";
+import Canvas2DBackend from "@/render/Canvas2DBackend";
+import Profiler from "./Profiler";
+import LoadingScreen from "./LoadingScreen";
+import SceneManager from "./SceneManager";
+import TweenManager from "./TweenManager";
+import Scheduler from "./Scheduler";
+import Viewport from "./Viewport";
+
+const DEFAULT_TICK_RATE: number = 60;
+const DEFAULT_MAX_UPDATES_PER_FRAME: number = 240;
 
 /**
  * Engine class. Handles actor management, update game loop, and rendering.
@@ -22,11 +30,12 @@ export default class Engine implements Engineable {
   readonly canvasElement: HTMLCanvasElement;
 
   /**
-   * Canvas context to draw to. Initialized on engine start.
+   * The backend used for all drawing operations. Defaults to a Canvas2D
+   * backend drawing to the canvas element.
    *
    * @readonly
    */
-  readonly ctx: CanvasRenderingContext2D;
+  readonly renderer: RenderBackendable;
 
   /**
    * The engine's parameter
@@ -49,6 +58,96 @@ export default class Engine implements Engineable {
    */
   readonly textureHandler: TextureHandler;
 
+  /**
+   * A profiler that measures time spent dispatching events, ticking and
+   * rendering each scene and actor, and rendering the parameter GUI.
+   *
+   * @readonly
+   */
+  readonly profiler: Profiler;
+
+  /**
+   * Manages the stack of active scenes. Once a scene has been pushed, only
+   * scenes on the stack are ticked and rendered.
+   *
+   * @readonly
+   */
+  readonly sceneManager: SceneManager;
+
+  /**
+   * Plays property tweens. Tweens are updated every tick after the scenes,
+   * with the engine's time scale.
+   *
+   * @readonly
+   */
+  readonly tweens: TweenManager;
+
+  /**
+   * Runs timers and coroutines in step with the tick. Updated every tick
+   * before the scenes, with the engine's time scale.
+   *
+   * @readonly
+   */
+  readonly scheduler: Scheduler;
+
+  /**
+   * Maps the engine's logical coordinate space onto the canvas. Canvas sizes,
+   * mouse positions and resize events are all reported in logical units.
+   *
+   * @readonly
+   */
+  readonly viewport: Viewport;
+
+  /**
+   * The clock used to measure time between updates and engine runtime.
+   * Headless engines default to a manual clock that only advances when
+   * the engine is stepped.
+   *
+   * @readonly
+   */
+  readonly clock: Clockable;
+
+  /**
+   * Whether or not the engine runs without its own requestAnimationFrame
+   * loop. Headless engines are driven manually through step() and advance().
+   *
+   * @readonly
+   * @default false
+   */
+  readonly isHeadless: boolean;
+
+  /**
+   * The number of ticks the engine aims to perform per second.
+   *
+   * @readonly
+   * @default DEFAULT_TICK_RATE
+   */
+  readonly tickRate: number;
+
+  /**
+   * How the engine divides elapsed frame time into ticks:
+   * - "fixed": ticks always last exactly one tick duration. Leftover lag is
+   * used to interpolate rendering between ticks.
+   * - "semi-fixed": all elapsed time is consumed each frame, in ticks no longer
+   * than one tick duration.
+   * - "variable": a single tick per frame consumes all elapsed time.
+   *
+   * @readonly
+   * @default "fixed"
+   */
+  readonly timestepMode: TimestepMode;
+
+  /**
+   * What the engine does with its lag accumulator once it has performed the
+   * maximum number of updates in a single frame:
+   * - "discard": all remaining lag is dropped.
+   * - "clamp": whole ticks are dropped, but the fractional remainder is kept.
+   * - "carry": lag is kept and worked off over the following frames.
+   *
+   * @default "discard"
+   */
+  panicStrategy: PanicStrategy;
+
   /**
    * A map containing string IDs and associated scenes.
    *
@@ -57,12 +156,28 @@ export default class Engine implements Engineable {
   scenes: Map<string, Scene> = new Map();
 
   /**
-   * A count of actors that have been successfully preloaded.
-   * Used during engine start to determine preload progress.
+   * The screen rendered while the engine preloads its scenes and actors.
+   *
+   * @default new LoadingScreen()
+   */
+  loadingScreen: LoadingScreenable;
+
+  /**
+   * The minimum amount of time in milliseconds the loading screen is
+   * displayed for, even if preloading finishes sooner.
    *
    * @default 0
    */
-  preloadedActorCount: number = 0;
+  minimumLoadingDuration: number;
+
+  /**
+   * A multiplier applied to the delta time of every tick, used for slow
+   * motion and freeze frames. Unlike pausing, a time scale of 0 still
+   * dispatches events and renders. Negative values are treated as 0.
+   *
+   * @default 1
+   */
+  timeScale: number = 1;
 
   /**
    * Whether or not the engine has paused ticks and render calls.
@@ -72,11 +187,30 @@ export default class Engine implements Engineable {
   isPaused: boolean = true;
 
   /**
-   * The current size of the canvas element.
+   * When the engine pauses itself: when the page is hidden, when the page is
+   * hidden or the window loses focus, or never. Engines paused this way
+   * resume once the page is shown or focused again.
+   *
+   * @default "hidden"
+   */
+  autoPause: AutoPauseMode;
+
+  /**
+   * Whether or not the engine is currently paused because the page was
+   * hidden or lost focus. A manual pause or resume clears this.
    *
    * @private
+   * @default false
    */
-  private _canvasSize: Vector2D;
+  private isAutoPaused: boolean = false;
+
+  /**
+   * Plugins installed through use(), in installation order.
+   *
+   * @private
+   * @default []
+   */
+  private plugins: Array<Pluginable> = [];
 
   /**
    * The current engine runtime in milliseconds.
@@ -110,6 +244,31 @@ export default class Engine implements Engineable {
    */
   isStarted: boolean = false;
 
+  /**
+   * Whether or not the engine has been destroyed. A destroyed engine cannot be
+   * started again.
+   *
+   * @default false
+   */
+  isDestroyed: boolean = false;
+
+  /**
+   * Whether or not start() is preloading and has not yet been stopped.
+   *
+   * @private
+   * @default false
+   */
+  private isStarting: boolean = false;
+
+  /**
+   * Identifies the most recent call to start(). Stopping the engine changes
+   * it, so a start() that is still preloading knows to abort.
+   *
+   * @private
+   * @default 0
+   */
+  private startID: number = 0;
+
   /**
    * Whether or not the engine has finished preload operations.
    *
@@ -119,13 +278,48 @@ export default class Engine implements Engineable {
   private isPreloaded: boolean = false;
 
   /**
-   * The total number of actors that are currently in the engine.
-   * Used to determine preload progress.
+   * Whether or not all elements have finished preloading. The loading screen
+   * may still be displayed afterwards until its minimum duration has passed.
+   *
+   * @private
+   * @default false
+   */
+  private isPreloadComplete: boolean = false;
+
+  /**
+   * The clock time at which the loading screen was first displayed.
    *
    * @private
    * @default 0
    */
-  private totalActorCount: number = 0;
+  private loadingStartTimestamp: number = 0;
+
+  /**
+   * The number of assets loaded through the texture handler while the engine
+   * was starting.
+   *
+   * @private
+   * @default 0
+   */
+  private loadedAssetCount: number = 0;
+
+  /**
+   * The number of assets requested from the texture handler while the engine
+   * was starting.
+   *
+   * @private
+   * @default 0
+   */
+  private totalAssetCount: number = 0;
+
+  /**
+   * The names of assets requested while the engine was starting that have
+   * not loaded yet.
+   *
+   * @private
+   * @default new Set()
+   */
+  private pendingAssetNames: Set<string> = new Set();
 
   /**
    * Accumulated lag time between updates in ms. Used to determine how many
@@ -135,11 +329,12 @@ export default class Engine implements Engineable {
 
   /**
    * Maximum number of updates to perform between draw calls. If this number is
-   * exceeded, the engine will panic and reset the lag accumulator.
+   * exceeded, the engine will panic and handle the lag accumulator according
+   * to its panic strategy.
    *
-   * @default MAX_UPDATES_PER_FRAME
+   * @default DEFAULT_MAX_UPDATES_PER_FRAME
    */
-  private readonly maxUpdatesPerFrame: number = MAX_UPDATES_PER_FRAME;
+  private readonly maxUpdatesPerFrame: number;
 
   /**
    * The previous high-res timestamp of the engine in milliseconds. Used to calculate the
@@ -153,16 +348,15 @@ export default class Engine implements Engineable {
   /**
    * Ideal tick duration in milliseconds. Used for update calculations.
    *
-   * @default 1000 / TARGET_FPS
+   * @default 1000 / DEFAULT_TICK_RATE
    */
-  private readonly targetTickDurationMilliseconds: number = 1000 / TARGET_FPS;
+  private readonly targetTickDurationMilliseconds: number;
 
   /**
    * Current ID of update loop.
    *
    * @private
    * @default -1
-   * @unused
    */
   private updateID: number = -1;
 
@@ -172,78 +366,308 @@ export default class Engine implements Engineable {
    *
    * @private
    * @default 0
-   * @unused
    */
   private updatesSinceEngineStart: number = 0;
 
   /**
-   * The current rendering scale of the canvas. At a low level, this value is
-   * equivalent to the window device pixel ratio.
+   * The interpolation factor of the most recently rendered frame. Used to
+   * redraw the frame for captures.
    *
    * @private
-   * @default 1
+   * @default 0
    */
-  private canvasScale: number = 1;
+  private lastInterpolationFactor: number = 0;
 
   /**
    * Creates a new Engine instance.
    *
    * @param canvasElement the canvas element to render to.
    * @param options default properties to apply to the engine.
+   *
+   * @throws {RangeError} if the tick rate or maximum updates per frame are not
+   * positive.
    */
   constructor(canvasElement: HTMLCanvasElement, options: EngineOptions = {}) {
     this.canvasElement = canvasElement;
-    this.ctx = <CanvasRenderingContext2D>canvasElement.getContext("2d");
+    this.renderer = options.renderBackend ?? Canvas2DBackend.fromCanvas(canvasElement);
+
+    this.isHeadless = options.isHeadless ?? false;
+    this.clock = options.clock ?? (this.isHeadless ? new ManualClock() : new RealtimeClock());
+
+    this.tickRate = options.tickRate ?? DEFAULT_TICK_RATE;
+    this.maxUpdatesPerFrame = options.maxUpdatesPerFrame ?? DEFAULT_MAX_UPDATES_PER_FRAME;
+    if (this.tickRate <= 0) throw new RangeError("Engine tick rate must be positive.");
+    if (this.maxUpdatesPerFrame <= 0) throw new RangeError("Engine max updates per frame must be positive.");
+
+    this.targetTickDurationMilliseconds = 1000 / this.tickRate;
+    this.timestepMode = options.timestepMode ?? "fixed";
+    this.panicStrategy = options.panicStrategy ?? "discard";
 
     // instantiate core components
-    this.eventHandler = new EventHandler(this.canvasElement);
+    this.viewport = new Viewport({ resolution: options.resolution, scaleMode: options.scaleMode, letterboxColor: options.letterboxColor });
+    this.eventHandler = new EventHandler(this.canvasElement, { isHeldInputClearedOnBlur: options.isHeldInputClearedOnBlur });
     this.eventHandler.setEnginePauseStateCallback(() => this.isPaused);
-    this.textureHandler = new TextureHandler();
-    this._canvasSize = this.fixRenderScale();
+    this.eventHandler.setCanvasResizeCallback(() => this.fixRenderScale());
+    this.eventHandler.setCanvasPointCallback((x, y) => this.viewport.toLogical(x, y));
+    this.textureHandler = new TextureHandler({ onLoadStart: this.handleAssetLoadStart, onLoad: this.handleAssetLoad });
+    this.fixRenderScale();
+    this.profiler = new Profiler({
+      isEnabled: options.isProfilerEnabled ?? options.isDebugEnabled ?? false,
+      historySize: options.profilerHistorySize,
+    });
+    this.sceneManager = new SceneManager(this);
+    this.tweens = new TweenManager();
+    this.scheduler = new Scheduler();
     this.parameterGUI = new ParameterGUI();
     this.parameterGUI.baseSection
-      .addParameter("FPS", () => this._FPS)
-      .addParameter("runtime", () => ((performance.now() - this._engineRuntimeMilliseconds) / 1000))
-      .addParameter("tick lag", () => this.lag);
+      .addParameter("FPS", () => this.profiler.isEnabled ? this.profiler.averageFPS : this._FPS)
+      .addParameter("runtime", () => this._engineRuntimeMilliseconds / 1000)
+      .addParameter("tick lag", () => this.lag)
+      .addParameter("time scale", () => this.timeScale)
+      .addParameter("scene stack", () => this.sceneManager.stack.map(scene => scene.name).join(", "));
+    this.parameterGUI.baseSection.addSubsection("Profiler", true)
+      .addGraph("FPS", () => this.profiler.FPSHistory)
+      .addGraph("frame time", () => this.profiler.frameTimeHistory);
 
     // apply options
+    this.loadingScreen = options.loadingScreen ?? new LoadingScreen();
+    this.minimumLoadingDuration = options.minimumLoadingDuration ?? 0;
     this.parameterGUI.isEnabled = options.isDebugEnabled ?? false;
+    this.timeScale = options.timeScale ?? this.timeScale;
+    this.autoPause = options.autoPause ?? "hidden";
   }
 
   getScenesByName = (name: string): Array<Scene> => Array.from(this.scenes.values()).filter((scene) => scene.name === name);
 
   /**
-   * Starts engine update loop. Used only once at startup.
+   * Gets the actors with a tag across every scene.
+   *
+   * @param {string} tag the tag to look for
+   *
+   * @returns {Array<Actorable>} the tagged actors
+   */
+  getActorsByTag = (tag: string): Array<Actorable> => Array.from(this.scenes.values()).flatMap(scene => scene.getActorsByTag(tag));
+
+  /**
+   * Gets the actors with a name across every scene.
+   *
+   * @param {string} name the name to look for
+   *
+   * @returns {Array<Actorable>} the actors with the name
+   */
+  getActorsByName = (name: string): Array<Actorable> => Array.from(this.scenes.values()).flatMap(scene => scene.getActorsByName(name));
+
+  /**
+   * Registers a scene with the engine. Called by scenes on creation.
+   *
+   * @param {Scene} scene the scene to add
+   */
+  addScene = (scene: Scene): void => {
+    this.scenes.set(scene.ID, scene);
+    this.callPluginHook("onSceneAdd", this, scene);
+  };
+
+  /**
+   * Removes a scene from the engine.
+   *
+   * @param {Scene} scene the scene to remove
+   *
+   * @returns {boolean} true if the scene was removed, false if it was not
+   * registered with the engine
+   */
+  removeScene = (scene: Scene): boolean => {
+    if (!this.scenes.delete(scene.ID)) return false;
+
+    this.sceneManager.removeFromStack(scene);
+    this.callPluginHook("onSceneRemove", this, scene);
+    return true;
+  };
+
+  /**
+   * Installs a plugin. Plugins receive hooks around the engine lifecycle, and
+   * may contribute a section to the parameter GUI. Plugins installed after the
+   * engine has started receive their onStart hook immediately.
+   *
+   * @param {Pluginable} plugin the plugin to install
+   *
+   * @returns {Engine} the engine, to allow chaining
    *
-   * @throws {Error} if the start function has already been called.
+   * @throws {Error} if a plugin with the same name is already installed
+   */
+  use = (plugin: Pluginable): Engine => {
+    if (this.getPlugin(plugin.name))
+      throw new Error(`Plugin with name ${plugin.name} is already installed.`);
+
+    this.plugins.push(plugin);
+
+    plugin.install?.(this);
+    if (plugin.createGUISection) plugin.createGUISection(this.parameterGUI.baseSection.addSubsection(plugin.name, true), this);
+    if (this.isStarted) plugin.onStart?.(this);
+
+    return this;
+  };
+
+  /**
+   * Gets an installed plugin by its name.
+   *
+   * @param {string} name the name of the plugin
+   *
+   * @returns {Pluginable | undefined} the plugin, if installed
+   */
+  getPlugin = (name: string): Pluginable | undefined => this.plugins.find(plugin => plugin.name === name);
+
+  /**
+   * Starts engine update loop. Headless engines preload as usual, but do not
+   * request animation frames. A stopped engine can be started again, in which
+   * case elements that have already been preloaded are not preloaded again.
+   * If the engine is stopped or destroyed while preloading, the start is
+   * aborted and resolves without starting the engine.
+   *
+   * @throws {Error} if the engine is already running or starting, or has been
+   * destroyed.
    */
   start = async (): Promise<void> => {
-    if(this.isStarted)
+    if(this.isDestroyed)
+      throw new Error("Engine has been destroyed.");
+    if(this.isStarted || this.isStarting)
       throw new Error("Engine has already been started.");
 
+    this.isStarting = true;
+    const startID: number = ++this.startID;
+
     this.fixRenderScale();
 
     this.canvasElement.tabIndex = -1;
     this.canvasElement.focus();
 
-    this.eventHandler.registerEventCallback("onresize", () => this._canvasSize = this.fixRenderScale());
+    this.eventHandler.registerEventCallback("onmousedown", this.handleMouseDown);
+    this.eventHandler.registerEventCallback("onblur", this.handleBlur);
+    this.eventHandler.registerEventCallback("onfocus", this.handleFocus);
 
-    this.eventHandler.registerEventCallback("onmousedown", (ev) => {
-      ev = <MouseEventPayload>ev;
-      this.parameterGUI.lastClickPosition = new Vector2D(ev.x, ev.y);
-    });
+    this.loadingStartTimestamp = this.clock.now();
+    this.loadedAssetCount = 0;
+    this.totalAssetCount = 0;
+    this.pendingAssetNames.clear();
 
-    this.updateID = requestAnimationFrame(this.update);
+    if (!this.isPreloaded) await this.loadingScreen.preload?.(this);
+    if (startID !== this.startID) return;
+
+    if (!this.isHeadless) this.updateID = requestAnimationFrame(this.update);
 
-    this.totalActorCount = Array.from(this.scenes.values()).reduce((acc, scene) => acc + scene.actors.size, 0);
+    const startingScenes: Array<Sceneable> = this.sceneManager.isInUse ? this.sceneManager.stack : Array.from(this.scenes.values());
 
-    await Promise.all(Array.from(this.scenes.values()).map((scene) => scene.start()));
+    await Promise.all(startingScenes.map((scene) => scene.start()));
+    if (startID !== this.startID) return;
 
-    this._engineStartTimestamp = performance.now();
+    this.isPreloadComplete = true;
+    this.eventHandler.dispatchEvent("onpreloadcomplete", {
+      type: "onpreloadcomplete",
+      loaded: this.loadedAssetCount,
+      total: this.totalAssetCount,
+      duration: this.clock.now() - this.loadingStartTimestamp,
+    });
+
+    this._engineStartTimestamp = this.clock.now();
+    this.previousUpdateTimestamp = this._engineStartTimestamp;
 
-    this.isPreloaded = true;
+    this.isStarting = false;
     this.isStarted = true;
     this.isPaused = false;
+
+    this.callPluginHook("onStart", this);
+  };
+
+  /**
+   * Dispatches an onpreloaderror event for an element whose preload failed
+   * outside of start(), such as an actor spawned after its scene started.
+   *
+   * @param {Elementable} element the element that failed to preload
+   * @param {unknown} error the reason the preload failed
+   */
+  reportPreloadError = (element: Elementable, error: unknown): void => {
+    this.eventHandler.dispatchEvent("onpreloaderror", {
+      type: "onpreloaderror",
+      error,
+      name: element.name,
+      ID: element.ID,
+    });
+  };
+
+  /**
+   * Stops the engine update loop and pauses the engine. Scenes, textures and
+   * event callbacks are kept, so the engine can be started again. A scene
+   * transition in progress is completed immediately, and a start() that is
+   * still preloading is aborted.
+   */
+  stop = (): void => {
+    if (!this.isStarted && !this.isStarting) return;
+
+    this.startID++;
+    this.isStarting = false;
+
+    if (this.updateID !== -1) cancelAnimationFrame(this.updateID);
+    this.updateID = -1;
+
+    this.eventHandler.unregisterEventCallback("onmousedown", this.handleMouseDown);
+    this.eventHandler.unregisterEventCallback("onblur", this.handleBlur);
+    this.eventHandler.unregisterEventCallback("onfocus", this.handleFocus);
+
+    this.lag = 0;
+    this.isPaused = true;
+    this.isAutoPaused = false;
+    this.isStarted = false;
+
+    this.sceneManager.skipTransition();
+  };
+
+  /**
+   * Pauses ticks and rendering, and dispatches onpause. Does nothing if the
+   * engine has not started or is already paused.
+   */
+  pause = (): void => {
+    this.isAutoPaused = false;
+    this.setPaused(true, "manual");
+  };
+
+  /**
+   * Resumes a paused engine, and dispatches onresume. Time spent paused is
+   * discarded, so no catch-up ticks are run. Does nothing if the engine has
+   * not started or is not paused.
+   */
+  resume = (): void => {
+    this.isAutoPaused = false;
+    this.setPaused(false, "manual");
+  };
+
+  /**
+   * Stops the engine and releases everything it holds: DOM event listeners,
+   * the resize observer, registered callbacks, cached textures, scenes and
+   * debug GUI sections. Scenes are disposed and removed before the plugins'
+   * onDestroy hooks are called. A destroyed engine cannot be started again,
+   * but a new engine can safely be created on the same canvas.
+   */
+  destroy = (): void => {
+    if (this.isDestroyed) return;
+
+    this.stop();
+
+    Array.from(this.scenes.values()).forEach(scene => {
+      scene.dispose();
+      this.removeScene(scene);
+    });
+
+    this.callPluginHook("onDestroy", this);
+
+    this.eventHandler.destroy();
+    this.tweens.cancelAll();
+    this.scheduler.cancelAll();
+
+    this.plugins = [];
+
+    this.textureHandler.destroy();
+    this.parameterGUI.baseSection.clear();
+
+    this.isDestroyed = true;
   };
 
   registerEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void {
@@ -255,126 +679,595 @@ export default class Engine implements Engineable {
   }
 
   /**
-   * Performs general update logic and manages tick cycle.
+   * Runs a number of ticks with the ideal tick duration, then renders a
+   * single frame. Does not consume accumulated lag. Only available on
+   * headless engines.
+   *
+   * @param {number} ticks the number of ticks to run
+   *
+   * @throws {Error} if the engine is not headless or has not been started
+   */
+  step = (ticks: number = 1): void => {
+    this.assertManuallyDriven();
+
+    if (!this.updatePreloadState()) {
+      this.clock.advance?.(ticks * this.targetTickDurationMilliseconds);
+      this.previousUpdateTimestamp = this.clock.now();
+      this.render(0);
+      return;
+    }
+
+    for (let i = 0; i < ticks; i++) {
+      this.clock.advance?.(this.targetTickDurationMilliseconds);
+      this._engineRuntimeMilliseconds += this.targetTickDurationMilliseconds;
+      if (!this.isPaused) this.tick(this.targetTickDurationMilliseconds);
+    }
+
+    this.previousUpdateTimestamp = this.clock.now();
+    this.render(this.lag / this.targetTickDurationMilliseconds);
+
+    this.endFrame(ticks * this.targetTickDurationMilliseconds);
+  };
+
+  /**
+   * Advances the engine by a given amount of time, running as many ticks as
+   * fit into the accumulated lag before rendering a single frame. If the
+   * engine's clock can be advanced, it is moved forward by the same amount.
+   * Only available on headless engines.
+   *
+   * @param {number} milliseconds the amount of time to advance by
+   *
+   * @throws {Error} if the engine is not headless or has not been started
+   */
+  advance = (milliseconds: number): void => {
+    this.assertManuallyDriven();
+
+    this.clock.advance?.(milliseconds);
+    this.previousUpdateTimestamp = this.clock.now();
+
+    this.processFrame(milliseconds);
+  };
+
+  /**
+   * Captures the current frame from the render backend's canvas as an image.
+   * Frames captured without the parameter GUI are redrawn without it before
+   * being captured.
+   *
+   * @param options optional properties of the capture
+   *
+   * @returns {Promise<Blob>} the encoded frame. Rejects if the render backend
+   * cannot draw or does not draw to a canvas, or the frame could not be
+   * encoded.
+   */
+  captureFrame = (options: CaptureOptions = {}): Promise<Blob> => {
+    try {
+      const canvas: HTMLCanvasElement | OffscreenCanvas = this.prepareCapture(options);
+
+      if (!("toBlob" in canvas))
+        return (<OffscreenCanvas & BlobConvertible>canvas).convertToBlob({ type: options.type ?? "image/png", quality: options.quality });
+
+      return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+          if (blob) resolve(blob);
+          else reject(new Error("Frame could not be encoded."));
+        }, options.type ?? "image/png", options.quality);
+      });
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  };
+
+  /**
+   * Captures the current frame from the render backend's canvas as a bitmap.
+   * Frames captured without the parameter GUI are redrawn without it before
+   * being captured.
+   *
+   * @param options optional properties of the capture
+   *
+   * @returns {Promise<ImageBitmap>} the captured frame. Rejects if the
+   * render backend cannot draw or does not draw to a canvas.
+   */
+  captureBitmap = (options: Omit<CaptureOptions, "type" | "quality"> = {}): Promise<ImageBitmap> => {
+    try {
+      return createImageBitmap(this.prepareCapture(options));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  };
+
+  /**
+   * Performs general update logic. Used as the requestAnimationFrame callback.
    *
    * @private
    *
-   * @param timestamp a timestamp provided by the browser to determine the delta
-   * time since the last update.
+   * @param timestamp a timestamp provided by the browser. Only used to
+   * schedule the next update; elapsed time is read from the engine clock.
    */
-  private update = (timestamp: DOMHighResTimeStamp) => {
+  private update = (_timestamp: DOMHighResTimeStamp) => {
     this.updateID = requestAnimationFrame(this.update);
 
-    if (!this.isPreloaded) {
+    const now: number = this.clock.now();
+    const delta: number = now - this.previousUpdateTimestamp;
+    this.previousUpdateTimestamp = now;
+
+    this.processFrame(delta);
+  };
+
+  /**
+   * Manages the tick cycle for a single frame and renders the result.
+   *
+   * @private
+   *
+   * @param {number} delta the time since the previous frame in milliseconds
+   */
+  private processFrame = (delta: number): void => {
+    if (!this.updatePreloadState()) {
       this.render(0);
       return;
     }
 
-    const delta: number = timestamp - this.previousUpdateTimestamp;
-    this.previousUpdateTimestamp = timestamp;
-
-    this.lag += delta;
+    if (!this.isPaused) this.lag += delta;
     this._engineRuntimeMilliseconds += delta;
 
-    this._FPS = 1000 / delta;
+    if (delta > 0) this._FPS = 1000 / delta;
+
+    switch (this.timestepMode) {
+      case "fixed":
+        this.consumeLag(this.targetTickDurationMilliseconds);
+        this.render(this.lag / this.targetTickDurationMilliseconds);
+        break;
+      case "semi-fixed":
+        this.consumeLag(Number.EPSILON);
+        this.render(1);
+        break;
+      case "variable":
+        if (!this.isPaused && this.lag > 0) {
+          this.tick(this.lag);
+          this.lag = 0;
+        }
+        this.render(1);
+        break;
+    }
+
+    this.endFrame(delta);
+  };
+
+  /**
+   * Cleans up after a frame: disposes scenes queued for disposal and
+   * completes the profiler's frame. Shared by the update loop and manual
+   * stepping.
+   *
+   * @private
+   *
+   * @param {number} frameTime the duration of the frame in milliseconds
+   */
+  private endFrame = (frameTime: number): void => {
+    Array.from(this.scenes.values())
+      .filter(scene => scene.isQueuedForDisposal)
+      .forEach(scene => {
+        scene.dispose();
+        this.removeScene(scene);
+      });
+
+    this.endProfilerFrame(frameTime);
+  };
+
+  /**
+   * Marks the engine as preloaded once all elements have finished preloading
+   * and the loading screen has been displayed for its minimum duration.
+   *
+   * @private
+   *
+   * @returns {boolean} whether or not the engine is preloaded
+   */
+  private updatePreloadState = (): boolean => {
+    if (this.isPreloaded) return true;
+
+    this.isPreloaded = this.isPreloadComplete && this.clock.now() - this.loadingStartTimestamp >= this.minimumLoadingDuration;
+
+    return this.isPreloaded;
+  };
+
+  /**
+   * Completes the profiler's current frame, and adds a GUI parameter for
+   * every newly profiled label and removes those of removed labels.
+   *
+   * @private
+   *
+   * @param {number} frameTime the duration of the frame in milliseconds
+   */
+  private endProfilerFrame = (frameTime: number): void => {
+    if (!this.profiler.isEnabled) return;
+
+    this.profiler.endFrame(frameTime);
+
+    const section: GUISectionable = this.parameterGUI.baseSection.getSubsectionByTitle("Profiler");
+    const labels: Array<string> = this.profiler.labels;
 
+    Array.from(section.parameters.keys())
+      .filter(label => !labels.includes(label))
+      .forEach(label => section.removeParameter(label));
+
+    labels
+      .filter(label => !section.parameters.has(label))
+      .forEach(label => section.addParameter(label, () => `${this.profiler.getAverage(label).toFixed(3)}ms (max ${this.profiler.getMax(label).toFixed(3)}ms)`));
+  };
+
+  /**
+   * Ticks the engine until the lag accumulator drops below a given threshold.
+   * Ticks last the ideal tick duration, or whatever lag remains if that is
+   * shorter. Panics if the maximum number of updates per frame is exceeded.
+   *
+   * @private
+   *
+   * @param {number} threshold the smallest amount of lag to tick for
+   */
+  private consumeLag = (threshold: number): void => {
     let cycleUpdateCount: number = 0;
 
-    while (this.lag >= this.targetTickDurationMilliseconds && !this.isPaused) {
-      this.eventHandler.queueEvent("ontick", { deltaTime: this.targetTickDurationMilliseconds, type: "ontick" });
-      this.eventHandler.dispatchQueue();
+    while (this.lag >= threshold && !this.isPaused) {
+      const timestep: number = Math.min(this.lag, this.targetTickDurationMilliseconds);
 
-      Array.from(this.scenes.values())
-        .filter(scene => scene.isTickEnabled)
-        .forEach(scene => scene.tick(this.targetTickDurationMilliseconds));
+      this.tick(timestep);
 
-      this.lag -= this.targetTickDurationMilliseconds;
+      this.lag -= timestep;
 
-      this.updatesSinceEngineStart++;
       if (++cycleUpdateCount >= this.maxUpdatesPerFrame) {
-        this.lag = 0;
+        this.panic(cycleUpdateCount);
         break;
       }
     }
+  };
 
-    this.render(this.lag / this.targetTickDurationMilliseconds);
+  /**
+   * Handles the lag accumulator according to the panic strategy, and queues
+   * an onpanic event with the amount of lag that was dropped.
+   *
+   * @private
+   *
+   * @param {number} updateCount the number of updates performed this frame
+   */
+  private panic = (updateCount: number): void => {
+    let droppedLag: number = 0;
 
-    Array.from(this.scenes.values())
-      .filter(scene => scene.isQueuedForDisposal)
-      .forEach(scene => this.scenes.delete(scene.ID));
+    switch (this.panicStrategy) {
+      case "discard":
+        droppedLag = this.lag;
+        break;
+      case "clamp":
+        droppedLag = this.lag - this.lag % this.targetTickDurationMilliseconds;
+        break;
+      case "carry":
+        break;
+    }
+
+    this.lag -= droppedLag;
+
+    this.eventHandler.queueEvent("onpanic", { type: "onpanic", droppedLag, updateCount });
+  };
+
+  /**
+   * Dispatches queued events, ticks all active tick-enabled scenes once, and
+   * advances any scene transition. The timestep is scaled by the engine's
+   * time scale; scene transitions use the unscaled timestep.
+   *
+   * @private
+   *
+   * @param {number} timestep the duration of the tick in milliseconds
+   */
+  private tick = (timestep: number): void => {
+    const scaledTimestep: number = timestep * Math.max(this.timeScale, 0);
+
+    this.callPluginHook("beforeTick", this, scaledTimestep);
+
+    this.profiler.measure("events", () => {
+      this.eventHandler.queueEvent("ontick", { deltaTime: scaledTimestep, type: "ontick" });
+      this.eventHandler.dispatchQueue();
+    });
+
+    this.profiler.measure("scheduler", () => this.scheduler.update(scaledTimestep));
+
+    this.profiler.measure("tick", () => (this.sceneManager.isInUse ? this.sceneManager.tickedScenes : Array.from(this.scenes.values()))
+      .filter(scene => scene.isTickEnabled)
+      .forEach(scene => this.profiler.measure(`tick:${scene.name}`, () => scene.tick(scaledTimestep))));
+
+    this.profiler.measure("tweens", () => this.tweens.update(scaledTimestep));
+
+    this.scenes.forEach(scene => scene.disposeQueuedActors());
+
+    this.sceneManager.update(timestep);
+
+    this.updatesSinceEngineStart++;
+
+    this.callPluginHook("afterTick", this, scaledTimestep);
+  };
+
+  /**
+   * Calls a hook on every installed plugin that implements it, in
+   * installation order.
+   *
+   * @private
+   *
+   * @param {PluginHook} hook the name of the hook to call
+   * @param args the arguments to call the hook with
+   */
+  private callPluginHook = <Hook extends PluginHook>(hook: Hook, ...args: Parameters<NonNullable<Pluginable[Hook]>>): void => {
+    this.plugins.forEach(plugin => (<((...args: Parameters<NonNullable<Pluginable[Hook]>>) => void) | undefined>plugin[hook])?.apply(plugin, args));
+  };
+
+  /**
+   * Tracks clicks for the parameter GUI.
+   *
+   * @private
+   *
+   * @param {MouseEventPayload} payload the mousedown event payload
+   */
+  private handleMouseDown = (payload: MouseEventPayload): void => {
+    this.parameterGUI.lastClickPosition = new Vector2D(payload.x, payload.y);
+  };
+
+  /**
+   * Pauses the engine if it is configured to pause for the given loss of
+   * focus.
+   *
+   * @private
+   *
+   * @param {FocusEventPayload} payload the blur event payload
+   */
+  private handleBlur = (payload: FocusEventPayload): void => {
+    if (this.autoPause === "never" || (this.autoPause === "hidden" && payload.reason !== "visibility")) return;
+    if (this.isPaused) return;
+
+    this.isAutoPaused = true;
+    this.setPaused(true, payload.reason);
+  };
+
+  /**
+   * Resumes the engine if it paused itself, and the page is visible again.
+   *
+   * @private
+   *
+   * @param {FocusEventPayload} payload the focus event payload
+   */
+  private handleFocus = (payload: FocusEventPayload): void => {
+    if (!this.isAutoPaused || document.visibilityState === "hidden") return;
+
+    this.isAutoPaused = false;
+    this.setPaused(false, payload.reason);
+  };
+
+  /**
+   * Adds an asset to the preload total if the engine is starting.
+   *
+   * @private
+   *
+   * @param {string} name the name the asset is registered under
+   */
+  private handleAssetLoadStart = (name: string): void => {
+    if (!this.isStarting || this.pendingAssetNames.has(name)) return;
+
+    this.pendingAssetNames.add(name);
+    this.totalAssetCount++;
+  };
+
+  /**
+   * Records that an asset requested while the engine was starting has
+   * loaded, and dispatches an onpreloadprogress event.
+   *
+   * @private
+   *
+   * @param {string} name the name the asset was registered under
+   */
+  private handleAssetLoad = (name: string): void => {
+    if (!this.isStarting || !this.pendingAssetNames.delete(name)) return;
+
+    this.loadedAssetCount++;
+
+    this.eventHandler.dispatchEvent("onpreloadprogress", {
+      type: "onpreloadprogress",
+      ...this.preloadProgress,
+      name,
+    });
+  };
+
+  /**
+   * Changes the pause state of a started engine and dispatches onpause or
+   * onresume. On resume, accumulated lag is dropped and the frame timer is
+   * reset, so time spent paused does not cause a burst of catch-up ticks.
+   *
+   * @private
+   *
+   * @param {boolean} isPaused the new pause state
+   * @param {PauseReason} reason what caused the change
+   */
+  private setPaused = (isPaused: boolean, reason: PauseReason): void => {
+    if (!this.isStarted || this.isPaused === isPaused) return;
+
+    this.isPaused = isPaused;
+
+    if (!isPaused) {
+      this.lag = 0;
+      this.previousUpdateTimestamp = this.clock.now();
+    }
+
+    this.eventHandler.dispatchEvent(isPaused ? "onpause" : "onresume", { type: isPaused ? "onpause" : "onresume", reason });
   };
 
   /**
-   * Draws relevant elements onto the context
+   * Ensures the render backend's canvas holds the frame to capture, redrawing
+   * it without the parameter GUI if requested.
+   *
+   * @private
+   *
+   * @param options the properties of the capture
+   *
+   * @returns {HTMLCanvasElement | OffscreenCanvas} the canvas to capture
+   *
+   * @throws {Error} if the render backend cannot draw or does not draw to a
+   * canvas.
+   */
+  private prepareCapture = (options: Pick<CaptureOptions, "isGUIIncluded">): HTMLCanvasElement | OffscreenCanvas => {
+    if (!this.renderer.isAvailable)
+      throw new Error("Frames cannot be captured without an available render backend.");
+    if (!this.renderer.canvas)
+      throw new Error("Frames can only be captured from render backends that draw to a canvas.");
+
+    if (!(options.isGUIIncluded ?? true) && this.parameterGUI.isEnabled) this.render(this.lastInterpolationFactor, true);
+
+    return this.renderer.canvas;
+  };
+
+  /**
+   * Ensures the engine can be driven through step() and advance().
+   *
+   * @private
+   *
+   * @throws {Error} if the engine is not headless or has not been started
+   */
+  private assertManuallyDriven = (): void => {
+    if (!this.isHeadless)
+      throw new Error("Engine can only be stepped manually in headless mode.");
+    if (!this.isStarted)
+      throw new Error("Engine must be started before it can be stepped.");
+  };
+
+  /**
+   * Draws relevant elements through the render backend
    *
    * @private
    *
    * @param {number} interpolationFactor interpolation value
+   * @param {boolean} isCapture whether or not the frame is redrawn for a
+   * capture. Captures are drawn without the parameter GUI, plugin render
+   * hooks, profiling or an onrender event.
    */
-  private render = (interpolationFactor: number) => {
-    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+  private render = (interpolationFactor: number, isCapture: boolean = false) => {
+    // headless environments like jsdom may not provide a 2D context, in which
+    // case there is nothing to draw to.
+    if (!this.renderer.isAvailable) return;
+
+    this.lastInterpolationFactor = interpolationFactor;
+
+    this.renderer.beginFrame?.();
+    this.renderer.save();
+    this.renderFrame(interpolationFactor, isCapture);
+    this.renderer.restore();
+    this.renderer.endFrame?.();
+  };
 
-    this.ctx.scale(this.canvasScale, this.canvasScale);
+  /**
+   * Draws a single frame: either the preload screen, or all render-enabled
+   * scenes followed by the parameter GUI.
+   *
+   * @private
+   *
+   * @param {number} interpolationFactor interpolation value
+   * @param {boolean} isCapture whether or not the frame is redrawn for a
+   * capture
+   */
+  private renderFrame = (interpolationFactor: number, isCapture: boolean): void => {
+    this.viewport.apply(this.renderer);
 
     if (!this.isPreloaded) this.renderPreloadScreen();
     if (this.isPaused || !this.isPreloaded) return;
 
-    this.ctx.clearRect(0, 0, this._canvasSize.x, this._canvasSize.y);
+    this.renderer.clearRect(0, 0, this.canvasSize.x, this.canvasSize.y);
+
+    if (isCapture) {
+      this.renderScenes(interpolationFactor, true);
+      return;
+    }
+
+    this.renderPluginHook("beforeRender", interpolationFactor);
+
+    this.profiler.measure("render", () => this.renderScenes(interpolationFactor, false));
+
 
-    Array.from(this.scenes.values()).filter(scene => scene.isRenderEnabled).forEach(scene => scene.render(interpolationFactor));
+    this.renderPluginHook("afterRender", interpolationFactor);
 
     this.eventHandler.queueEvent("onrender", { interpolationFactor, type: "onrender" });
 
-    this.parameterGUI.render(this.ctx);
+    this.profiler.measure("gui", () => this.parameterGUI.render(this.renderer));
   };
 
   /**
-   * Renders the preload screen.
+   * Draws the render-enabled scenes, through the scene manager if it is in
+   * use.
    *
    * @private
+   *
+   * @param {number} interpolationFactor interpolation value
+   * @param {boolean} isCapture whether or not the scenes are redrawn for a
+   * capture, which is not profiled
    */
-  private renderPreloadScreen(): void {
-    this.ctx.fillStyle = "black";
-    this.ctx.fillRect(0, 0, this.canvasSize.x, this.canvasSize.y);
+  private renderScenes = (interpolationFactor: number, isCapture: boolean): void => {
+    const drawScenes = (scenes: Array<Sceneable>): void => scenes
+      .filter(scene => scene.isRenderEnabled)
+      .forEach(scene => isCapture
+        ? scene.render(interpolationFactor, true)
+        : this.profiler.measure(`render:${scene.name}`, () => scene.render(interpolationFactor)));
+
+    if (this.sceneManager.isInUse) this.sceneManager.render(this.renderer, this.canvasSize, drawScenes);
+    else drawScenes(Array.from(this.scenes.values()));
+  };
 
-    this.ctx.font = "30px monospace";
-    this.ctx.textAlign = "center";
-    this.ctx.fillStyle = "white";
-    this.ctx.fillText("LOADING...", this.canvasSize.x / 2, this.canvasSize.y / 2);
+  /**
+   * Calls a render hook on every installed plugin, isolating any changes the
+   * plugin makes to the render state.
+   *
+   * @private
+   *
+   * @param hook the name of the render hook to call
+   * @param {number} interpolationFactor interpolation value
+   */
+  private renderPluginHook = (hook: "beforeRender" | "afterRender", interpolationFactor: number): void => {
+    this.plugins.filter(plugin => plugin[hook]).forEach(plugin => {
+      this.renderer.save();
+      plugin[hook]?.(this, this.renderer, interpolationFactor);
+      this.renderer.restore();
+    });
+  };
 
-    this.ctx.strokeStyle = "white";
-    this.ctx.strokeRect(this.canvasSize.x / 2 - 200, this.canvasSize.y / 2 + 32, 400, 16);
-    this.ctx.fillRect(this.canvasSize.x / 2 - 200, this.canvasSize.y / 2 + 32, 400 * this.preloadedActorCount / this.totalActorCount, 16);
+  /**
+   * Renders the loading screen.
+   *
+   * @private
+   */
+  private renderPreloadScreen(): void {
+    this.loadingScreen.render(this.renderer, this.preloadProgress, this.canvasSize);
   }
 
   /**
-   * Normalizes the canvas size towards device DPI
+   * Normalizes the canvas size towards device DPI, and refits the viewport
+   * to the new size.
    *
    * @private
    *
-    * @returns the normalized canvas size
+    * @returns the logical canvas size
    */
   private fixRenderScale = (): Vector2D => {
-    this.canvasScale = window.devicePixelRatio;
+    const pixelRatio: number = window.devicePixelRatio;
 
-    let width: number = Number(getComputedStyle(this.canvasElement)
+    const width: number = Number(getComputedStyle(this.canvasElement)
       .getPropertyValue("width")
       .slice(0, -2));
-    let height: number = Number(getComputedStyle(this.canvasElement)
+    const height: number = Number(getComputedStyle(this.canvasElement)
       .getPropertyValue("height")
       .slice(0, -2));
 
-    width *= this.canvasScale;
-    height *= this.canvasScale;
+    this.canvasElement.setAttribute("width", String(width * pixelRatio));
+    this.canvasElement.setAttribute("height", String(height * pixelRatio));
 
-    this.canvasElement.setAttribute("width", String(width));
-    this.canvasElement.setAttribute("height", String(height));
+    this.viewport.resize(width, height, pixelRatio);
 
-    return new Vector2D(width, height);
+    return this.viewport.size;
   };
 
+  /**
+   * The size of the canvas in logical units.
+   */
   get canvasSize(): Vector2D {
-    return this._canvasSize;
+    return this.viewport.size;
   }
 
   get engineRuntimeMilliseconds(): number {
@@ -388,4 +1281,16 @@ export default class Engine implements Engineable {
   get FPS(): number {
     return this._FPS;
   }
+
+  get tickCount(): number {
+    return this.updatesSinceEngineStart;
+  }
+
+  get preloadProgress(): PreloadProgress {
+    return {
+      loaded: this.loadedAssetCount,
+      total: this.totalAssetCount,
+      progress: this.totalAssetCount ? this.loadedAssetCount / this.totalAssetCount : 1,
+    };
+  }
 }
@@ -0,0 +1,111 @@
+const DEFAULT_TICKS_PER_FRAME: number = 1;
+
+/**
+ * Records a sequence of frames from a headless engine. The engine is stepped
+ * a fixed number of ticks between captures, so recordings are deterministic
+ * and independent of how long each capture takes.
+ */
+export default class FrameRecorder implements FrameRecordable {
+  /**
+   * The engine to record.
+   *
+   * @readonly
+   */
+  readonly engine: Engineable;
+
+  /**
+   * The number of ticks the engine is stepped between captured frames.
+   *
+   * @default 1
+   */
+  ticksPerFrame: number;
+
+  /**
+   * Captured frames, oldest first.
+   *
+   * @default []
+   */
+  frames: Array<Blob> = [];
+
+  /**
+   * The properties every frame is captured with.
+   *
+   * @private
+   * @readonly
+   */
+  private readonly captureOptions: CaptureOptions;
+
+  /**
+   * Creates a new FrameRecorder instance.
+   *
+   * @param {Engineable} engine the engine to record
+   * @param options optional properties to apply at creation
+   *
+   * @throws {RangeError} if the number of ticks per frame is not a positive
+   * integer.
+   */
+  constructor(engine: Engineable, options: FrameRecorderOptions = {}) {
+    this.engine = engine;
+    this.ticksPerFrame = options.ticksPerFrame ?? DEFAULT_TICKS_PER_FRAME;
+    this.captureOptions = { type: options.type, quality: options.quality, isGUIIncluded: options.isGUIIncluded };
+
+    if (!Number.isInteger(this.ticksPerFrame) || this.ticksPerFrame <= 0)
+      throw new RangeError("Frame recorder ticks per frame must be a positive integer.");
+  }
+
+  /**
+   * Steps the engine and captures a number of frames, adding them to the
+   * recorded frames.
+   *
+   * @param {number} frameCount the number of frames to capture
+   *
+   * @returns {Promise<Array<Blob>>} the frames captured by this call
+   *
+   * @throws {Error} if the engine is not headless or has not been started
+   */
+  record = async (frameCount: number): Promise<Array<Blob>> => {
+    const frames: Array<Blob> = [];
+
+    for (let i = 0; i < frameCount; i++) {
+      this.engine.step(this.ticksPerFrame);
+      frames.push(await this.engine.captureFrame(this.captureOptions));
+    }
+
+    this.frames.push(...frames);
+
+    return frames;
+  };
+
+  /**
+   * Removes all recorded frames.
+   */
+  clear = (): void => {
+    this.frames = [];
+  };
+
+  /**
+   * Converts the recorded frames into a numbered image sequence, ready to be
+   * downloaded or passed to an encoder.
+   *
+   * @param {string} name the name each file starts with
+   *
+   * @returns {Array<File>} one file per frame, named like "name-0001.png"
+   */
+  toFiles = (name: string = "frame"): Array<File> => {
+    const digits: number = Math.max(4, String(this.frames.length).length);
+
+    return this.frames.map((frame, index) => {
+      const extension: string = frame.type.split("/")[1] ?? "png";
+
+      return new File([frame], `${name}-${String(index + 1).padStart(digits, "0")}.${extension}`, { type: frame.type });
+    });
+  };
+
+  /**
+   * The total duration of the recorded frames in milliseconds of engine
+   * time.
+   */
+  get duration(): number {
+    return this.frames.length * this.ticksPerFrame * 1000 / this.engine.tickRate;
+  }
+}
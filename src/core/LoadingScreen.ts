@@ -0,0 +1,91 @@
+/**
+ * The default loading screen. Draws a solid background, an optional logo
+ * texture, a line of text, and a progress bar.
+ */
+export default class LoadingScreen implements LoadingScreenable {
+  /**
+   * The background color of the screen.
+   *
+   * @default "black"
+   */
+  background: string;
+
+  /**
+   * The color of the text and progress bar.
+   *
+   * @default "white"
+   */
+  foreground: string;
+
+  /**
+   * The text to display above the progress bar.
+   *
+   * @default "LOADING..."
+   */
+  text: string;
+
+  /**
+   * A path to a logo texture, loaded before any other asset.
+   *
+   * @readonly
+   */
+  readonly logoPath: string | null;
+
+  /**
+   * The logo texture, once loaded.
+   *
+   * @private
+   * @default null
+   */
+  private logo: ImageBitmap | null = null;
+
+  /**
+   * Creates a new LoadingScreen instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: LoadingScreenOptions = {}) {
+    this.background = options.background ?? "black";
+    this.foreground = options.foreground ?? "white";
+    this.text = options.text ?? "LOADING...";
+    this.logoPath = options.logoPath ?? null;
+  }
+
+  /**
+   * Loads the logo texture, if one was provided.
+   *
+   * @param {Engineable} engine the engine the screen is displayed by
+   *
+   * @returns {Promise<any>}
+   */
+  preload = async (engine: Engineable): Promise<any> => {
+    if (!this.logoPath) return;
+
+    this.logo = await engine.textureHandler.registerTextureFromPath("__loading_screen_logo", this.logoPath);
+  };
+
+  /**
+   * Renders the loading screen.
+   *
+   * @param {RenderBackendable} renderer the render backend to draw with
+   * @param {PreloadProgress} progress the current preload progress
+   * @param {Vectorable} canvasSize the size of the canvas
+   */
+  render = (renderer: RenderBackendable, progress: PreloadProgress, canvasSize: Vectorable): void => {
+    renderer.setFillStyle(this.background);
+    renderer.fillRect(0, 0, canvasSize.x, canvasSize.y);
+
+    if (this.logo) {
+      renderer.drawImage(this.logo, 0, 0, this.logo.width, this.logo.height, canvasSize.x / 2 - this.logo.width / 2, canvasSize.y / 2 - this.logo.height - 48, this.logo.width, this.logo.height);
+    }
+
+    renderer.setFont("30px monospace");
+    renderer.setTextAlign("center");
+    renderer.setFillStyle(this.foreground);
+    renderer.fillText(this.text, canvasSize.x / 2, canvasSize.y / 2);
+
+    renderer.setStrokeStyle(this.foreground);
+    renderer.strokeRect(canvasSize.x / 2 - 200, canvasSize.y / 2 + 32, 400, 16);
+    renderer.fillRect(canvasSize.x / 2 - 200, canvasSize.y / 2 + 32, 400 * progress.progress, 16);
+  };
+}
@@ -0,0 +1,234 @@
+const DEFAULT_HISTORY_SIZE: number = 120;
+
+/**
+ * Measures time spent in labelled sections of the engine, and keeps a rolling
+ * history of those measurements per frame.
+ */
+export default class Profiler implements Profilable {
+  /**
+   * Whether or not measurements are taken. A disabled profiler still runs
+   * measured callbacks, but does not time them.
+   *
+   * @default false
+   */
+  isEnabled: boolean;
+
+  /**
+   * The number of frames of history kept for each label.
+   *
+   * @readonly
+   */
+  readonly historySize: number;
+
+  /**
+   * Returns a high-res timestamp in milliseconds. Profiling measures real
+   * elapsed time, even when the engine is driven by a manual clock.
+   *
+   * @private
+   * @readonly
+   */
+  private readonly now: () => number;
+
+  /**
+   * Rolling per-frame totals for each label, oldest first.
+   *
+   * @private
+   * @default new Map()
+   */
+  private history: Map<string, Array<number>> = new Map();
+
+  /**
+   * Rolling frame durations, oldest first.
+   *
+   * @private
+   * @default []
+   */
+  private frameTimes: Array<number> = [];
+
+  /**
+   * Totals accumulated for each label during the current frame.
+   *
+   * @private
+   * @default new Map()
+   */
+  private currentFrame: Map<string, number> = new Map();
+
+  /**
+   * Creates a new Profiler instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: ProfilerOptions = {}) {
+    this.isEnabled = options.isEnabled ?? false;
+    this.historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+    this.now = options.now ?? (() => performance.now());
+  }
+
+  /**
+   * Runs a callback and adds the time it took to the current frame's total
+   * for a label. Measurements of the same label within a frame are summed.
+   *
+   * @param {string} label the label to measure under
+   * @param callback the callback to measure
+   *
+   * @returns the return value of the callback
+   */
+  measure = <T>(label: string, callback: () => T): T => {
+    if (!this.isEnabled) return callback();
+
+    const start: number = this.now();
+    const result: T = callback();
+    this.currentFrame.set(label, (this.currentFrame.get(label) ?? 0) + this.now() - start);
+
+    return result;
+  };
+
+  /**
+   * Completes the current frame, moving its totals into the rolling history.
+   * Labels that were not measured during the frame record a time of 0.
+   *
+   * @param {number} frameTime the duration of the frame in milliseconds
+   */
+  endFrame = (frameTime: number): void => {
+    if (!this.isEnabled) return;
+
+    this.push(this.frameTimes, frameTime);
+
+    this.currentFrame.forEach((_, label) => {
+      if (!this.history.has(label)) this.history.set(label, []);
+    });
+
+    this.history.forEach((samples, label) => this.push(samples, this.currentFrame.get(label) ?? 0));
+
+    this.currentFrame.clear();
+  };
+
+  /**
+   * Removes a label and its history.
+   *
+   * @param {string} label the label to remove
+   *
+   * @returns {boolean} true if the label had history
+   */
+  removeLabel = (label: string): boolean => {
+    this.currentFrame.delete(label);
+
+    return this.history.delete(label);
+  };
+
+  /**
+   * Removes all recorded history.
+   */
+  reset = (): void => {
+    this.history.clear();
+    this.frameTimes = [];
+    this.currentFrame.clear();
+  };
+
+  /**
+   * Gets the rolling per-frame history of a label.
+   *
+   * @param {string} label the label to look up
+   *
+   * @returns {Array<number>} per-frame totals in milliseconds, oldest first
+   */
+  getHistory = (label: string): Array<number> => this.history.get(label) ?? [];
+
+  /**
+   * Gets the average per-frame time of a label across its history.
+   *
+   * @param {string} label the label to look up
+   *
+   * @returns {number} the average time in milliseconds, or 0 if there is no
+   * history
+   */
+  getAverage = (label: string): number => this.average(this.getHistory(label));
+
+  /**
+   * Gets the longest per-frame time of a label across its history.
+   *
+   * @param {string} label the label to look up
+   *
+   * @returns {number} the longest time in milliseconds, or 0 if there is no
+   * history
+   */
+  getMax = (label: string): number => Math.max(0, ...this.getHistory(label));
+
+  /**
+   * Summarizes the history of every label.
+   *
+   * @returns {Array<ProfilerSample>} a summary per label, sorted by average
+   * time with the most expensive label first
+   */
+  getSamples = (): Array<ProfilerSample> => {
+    return this.labels
+      .map(label => ({ label, average: this.getAverage(label), max: this.getMax(label), latest: this.getHistory(label).at(-1) ?? 0 }))
+      .sort((a, b) => b.average - a.average);
+  };
+
+  /**
+   * Pushes a value onto a rolling history, dropping the oldest value once the
+   * history is full.
+   *
+   * @private
+   *
+   * @param {Array<number>} samples the history to push to
+   * @param {number} value the value to push
+   */
+  private push = (samples: Array<number>, value: number): void => {
+    samples.push(value);
+    if (samples.length > this.historySize) samples.shift();
+  };
+
+  /**
+   * Averages a list of values.
+   *
+   * @private
+   *
+   * @param {Array<number>} samples the values to average
+   *
+   * @returns {number} the average, or 0 if there are no values
+   */
+  private average = (samples: Array<number>): number => {
+    if (!samples.length) return 0;
+
+    return samples.reduce((acc, sample) => acc + sample, 0) / samples.length;
+  };
+
+  /**
+   * All labels that have history.
+   */
+  get labels(): Array<string> {
+    return Array.from(this.history.keys());
+  }
+
+  /**
+   * Rolling frame durations in milliseconds, oldest first.
+   */
+  get frameTimeHistory(): Array<number> {
+    return this.frameTimes;
+  }
+
+  /**
+   * Rolling FPS values derived from frame durations, oldest first.
+   */
+  get FPSHistory(): Array<number> {
+    return this.frameTimes.map(frameTime => frameTime > 0 ? 1000 / frameTime : 0);
+  }
+
+  /**
+   * The average frame duration in milliseconds across the history.
+   */
+  get averageFrameTime(): number {
+    return this.average(this.frameTimes);
+  }
+
+  /**
+   * The average FPS across the history.
+   */
+  get averageFPS(): number {
+    const averageFrameTime: number = this.averageFrameTime;
+
+    return averageFrameTime > 0 ? 1000 / averageFrameTime : 0;
+  }
+}
@@ -0,0 +1,373 @@
+type SceneStackEntry = {
+  scene: Sceneable;
+  isOverlay: boolean;
+  isUnderlyingTickEnabled: boolean;
+};
+
+type ActiveTransition = {
+  transition: Transitionable;
+  from: Array<Sceneable>;
+  to: Array<Sceneable>;
+  elapsed: number;
+  resolve: () => void;
+};
+
+/**
+ * Manages a stack of active scenes. Until a scene is first pushed, the engine
+ * ticks and renders every scene it knows about. Afterwards, only the scenes
+ * on the stack are ticked and rendered:
+ *
+ * - the top scene is always active
+ * - overlay scenes also render the scene beneath them, and tick it if
+ * isUnderlyingTickEnabled is set
+ *
+ * Scenes that have not been preloaded are preloaded when they first become
+ * active. Stack changes are applied in the order they were requested, and
+ * resolve once their transition has completed.
+ */
+export default class SceneManager implements SceneManagerable {
+  /**
+   * The engine the manager belongs to.
+   *
+   * @readonly
+   */
+  readonly engine: Engineable;
+
+  /**
+   * Whether or not the manager controls which scenes are ticked and rendered.
+   * Set once the first scene is pushed.
+   *
+   * @default false
+   */
+  isInUse: boolean = false;
+
+  /**
+   * Active scenes, bottom first.
+   *
+   * @private
+   * @default []
+   */
+  private entries: Array<SceneStackEntry> = [];
+
+  /**
+   * The transition currently being played, if any.
+   *
+   * @private
+   * @default null
+   */
+  private activeTransition: ActiveTransition | null = null;
+
+  /**
+   * Resolves once every requested stack change has been applied.
+   *
+   * @private
+   */
+  private lastOperation: Promise<void> = Promise.resolve();
+
+  /**
+   * The number of stack changes that have been requested but not yet
+   * completed.
+   *
+   * @private
+   * @default 0
+   */
+  private pendingOperationCount: number = 0;
+
+  /**
+   * Creates a new SceneManager instance.
+   *
+   * @param {Engineable} engine the engine the manager belongs to
+   */
+  constructor(engine: Engineable) {
+    this.engine = engine;
+  }
+
+  /**
+   * Pushes a scene onto the stack, making it the top scene.
+   *
+   * @param {Sceneable} scene the scene to push
+   * @param options optional properties of the stack change
+   *
+   * @returns {Promise<void>} resolves once the scene is active and any
+   * transition has completed
+   */
+  push = (scene: Sceneable, options: PushSceneOptions = {}): Promise<void> => this.enqueue(scene, () => {
+    const from: Array<Sceneable> = this.renderedScenes;
+    this.entries.push(this.createEntry(scene, options));
+    this.isInUse = true;
+
+    return this.transition(options.transition, from);
+  });
+
+  /**
+   * Pops the top scene off the stack.
+   *
+   * @param options optional properties of the stack change
+   *
+   * @returns {Promise<Sceneable | undefined>} resolves with the popped scene
+   * once any transition has completed, or with undefined if the stack is
+   * empty
+   */
+  pop = (options: SceneChangeOptions = {}): Promise<Sceneable | undefined> => this.enqueue(null, () => {
+    if (!this.entries.length) return undefined;
+
+    const from: Array<Sceneable> = this.renderedScenes;
+    const entry: SceneStackEntry = <SceneStackEntry>this.entries.pop();
+    const transition: Promise<void> | undefined = this.transition(options.transition, from);
+
+    return transition ? transition.then(() => entry.scene) : entry.scene;
+  });
+
+  /**
+   * Replaces the top scene of the stack. Pushes the scene if the stack is
+   * empty.
+   *
+   * @param {Sceneable} scene the scene to replace the top scene with
+   * @param options optional properties of the stack change
+   *
+   * @returns {Promise<Sceneable | undefined>} resolves with the replaced
+   * scene once any transition has completed
+   */
+  replace = (scene: Sceneable, options: PushSceneOptions = {}): Promise<Sceneable | undefined> => this.enqueue(scene, () => {
+    const from: Array<Sceneable> = this.renderedScenes;
+    const entry: SceneStackEntry | undefined = this.entries.pop();
+    this.entries.push(this.createEntry(scene, options));
+    this.isInUse = true;
+
+    const transition: Promise<void> | undefined = this.transition(options.transition, from);
+
+    return transition ? transition.then(() => entry?.scene) : entry?.scene;
+  });
+
+  /**
+   * Immediately removes a scene from anywhere in the stack, without a
+   * transition. Called by the engine when a scene is removed.
+   *
+   * @param {Sceneable} scene the scene to remove
+   *
+   * @returns {boolean} true if the scene was on the stack
+   */
+  removeFromStack = (scene: Sceneable): boolean => {
+    const entryCount: number = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.scene !== scene);
+
+    if (this.activeTransition) {
+      this.activeTransition.from = this.activeTransition.from.filter(other => other !== scene);
+      this.activeTransition.to = this.activeTransition.to.filter(other => other !== scene);
+    }
+
+    return this.entries.length !== entryCount;
+  };
+
+  /**
+   * Advances the current transition. Called by the engine once per tick.
+   *
+   * @param {number} deltaTime the duration of the tick in milliseconds
+   */
+  update = (deltaTime: number): void => {
+    if (!this.activeTransition) return;
+
+    this.activeTransition.elapsed += deltaTime;
+    if (this.activeTransition.elapsed >= this.activeTransition.transition.duration) this.completeTransition();
+  };
+
+  /**
+   * Immediately completes the current transition, resolving its stack
+   * change. Called by the engine when it stops, since transitions only
+   * advance while the engine ticks.
+   */
+  skipTransition = (): void => {
+    if (this.activeTransition) this.completeTransition();
+  };
+
+  /**
+   * Renders the active scenes, or the current transition between two sets
+   * of scenes.
+   *
+   * @param {RenderBackendable} renderer the render backend to draw with
+   * @param {Vectorable} canvasSize the size of the canvas
+   * @param renderScenes a callback that renders a list of scenes
+   */
+  render = (renderer: RenderBackendable, canvasSize: Vectorable, renderScenes: (scenes: Array<Sceneable>) => void): void => {
+    if (!this.activeTransition) return renderScenes(this.renderedScenes);
+
+    const { transition, from, to } = this.activeTransition;
+    transition.render(renderer, this.transitionProgress, () => renderScenes(from), () => renderScenes(to), canvasSize);
+  };
+
+  /**
+   * Runs a stack change once all previously requested changes have
+   * completed, preloading the scene it activates first. If no changes are
+   * pending and no preloading is required, the change is applied
+   * immediately.
+   *
+   * @private
+   *
+   * @param {Sceneable | null} scene the scene the change activates, if any
+   * @param change applies the stack change, returning its result or a
+   * promise that resolves with its result once its transition completes
+   *
+   * @returns a promise resolving with the result of the change
+   */
+  private enqueue = <T>(scene: Sceneable | null, change: () => T | Promise<T>): Promise<T> => {
+    if (this.pendingOperationCount === 0 && !(scene && this.isPreloadRequired(scene))) {
+      const result: T | Promise<T> = change();
+
+      return result instanceof Promise ? this.track(result) : Promise.resolve(result);
+    }
+
+    return this.track(this.lastOperation.then(async () => {
+      if (scene && this.isPreloadRequired(scene)) await scene.start();
+
+      return change();
+    }));
+  };
+
+  /**
+   * Marks a stack change as pending until it settles, so later changes wait
+   * for it.
+   *
+   * @private
+   *
+   * @param {Promise<T>} operation the pending stack change
+   *
+   * @returns {Promise<T>} the same stack change
+   */
+  private track = <T>(operation: Promise<T>): Promise<T> => {
+    this.pendingOperationCount++;
+    this.lastOperation = operation.then(() => {}, () => {}).then(() => { this.pendingOperationCount--; });
+
+    return operation;
+  };
+
+  /**
+   * Checks whether a scene or any of its actors must be preloaded before the
+   * scene becomes active. Scenes activated before the engine starts are
+   * preloaded by the engine instead.
+   *
+   * @private
+   *
+   * @param {Sceneable} scene the scene to check
+   *
+   * @returns {boolean} true if the scene should be started before activation
+   */
+  private isPreloadRequired = (scene: Sceneable): boolean => {
+    if (!this.engine.isStarted) return false;
+
+    return !scene.isPreloaded || Array.from(scene.actors.values()).some(actor => !actor.isPreloaded);
+  };
+
+  /**
+   * Plays a transition from a set of scenes to the currently rendered scenes.
+   * Nothing is played if there is no transition, or if the engine has not
+   * started.
+   *
+   * @private
+   *
+   * @param {Transitionable | undefined} transition the transition to play
+   * @param {Array<Sceneable>} from the scenes rendered before the change
+   *
+   * @returns {Promise<void> | undefined} a promise that resolves once the
+   * transition completes, or undefined if nothing is played
+   */
+  private transition = (transition: Transitionable | undefined, from: Array<Sceneable>): Promise<void> | undefined => {
+    if (!transition || transition.duration <= 0 || !this.engine.isStarted) return undefined;
+
+    return new Promise(resolve => {
+      this.activeTransition = { transition, from, to: this.renderedScenes, elapsed: 0, resolve };
+    });
+  };
+
+  /**
+   * Ends the current transition and resolves its stack change.
+   *
+   * @private
+   */
+  private completeTransition = (): void => {
+    const resolve: (() => void) | undefined = this.activeTransition?.resolve;
+
+    this.activeTransition = null;
+    resolve?.();
+  };
+
+  /**
+   * Creates a stack entry for a scene.
+   *
+   * @private
+   *
+   * @param {Sceneable} scene the scene to create an entry for
+   * @param options the options the scene was pushed with
+   *
+   * @returns {SceneStackEntry} the new entry
+   */
+  private createEntry = (scene: Sceneable, options: PushSceneOptions): SceneStackEntry => ({
+    scene,
+    isOverlay: options.isOverlay ?? false,
+    isUnderlyingTickEnabled: options.isUnderlyingTickEnabled ?? false,
+  });
+
+  /**
+   * All scenes on the stack, bottom first.
+   */
+  get stack(): Array<Sceneable> {
+    return this.entries.map(entry => entry.scene);
+  }
+
+  /**
+   * The top scene of the stack, if any.
+   */
+  get top(): Sceneable | undefined {
+    return this.entries.at(-1)?.scene;
+  }
+
+  /**
+   * Scenes that should be rendered: the top scene, along with every scene
+   * beneath a chain of overlays. Bottom first.
+   */
+  get renderedScenes(): Array<Sceneable> {
+    const scenes: Array<Sceneable> = [];
+
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      scenes.unshift(this.entries[i].scene);
+      if (!this.entries[i].isOverlay) break;
+    }
+
+    return scenes;
+  }
+
+  /**
+   * Scenes that should be ticked: the top scene, along with every scene
+   * beneath a chain of overlays that allow underlying scenes to tick. Bottom
+   * first.
+   */
+  get tickedScenes(): Array<Sceneable> {
+    const scenes: Array<Sceneable> = [];
+
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      scenes.unshift(this.entries[i].scene);
+      if (!this.entries[i].isOverlay || !this.entries[i].isUnderlyingTickEnabled) break;
+    }
+
+    return scenes;
+  }
+
+  /**
+   * Whether or not a transition is currently being played.
+   */
+  get isTransitioning(): boolean {
+    return this.activeTransition !== null;
+  }
+
+  /**
+   * The eased progress of the current transition, from 0 to 1. 1 if no
+   * transition is being played.
+   */
+  get transitionProgress(): number {
+    if (!this.activeTransition) return 1;
+
+    const { transition, elapsed } = this.activeTransition;
+    const progress: number = Math.min(elapsed / transition.duration, 1);
+
+    return transition.easing?.(progress) ?? progress;
+  }
+}
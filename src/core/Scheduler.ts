@@ -0,0 +1,570 @@
+/**
+ * A callback scheduled to run after a delay, and optionally repeat.
+ */
+export class Timer implements Timerable {
+  /**
+   * The function called when the timer fires.
+   *
+   * @readonly
+   */
+  readonly callback: () => void;
+
+  /**
+   * The time between repeats in milliseconds, or null if the timer only fires
+   * once.
+   *
+   * @readonly
+   */
+  readonly interval: number | null;
+
+  /**
+   * The scheduler time the timer next fires at, in milliseconds.
+   */
+  dueTime: number;
+
+  /**
+   * The order the timer was created in. Timers due at the same time fire in
+   * this order.
+   *
+   * @readonly
+   */
+  readonly sequence: number;
+
+  /**
+   * @private
+   * @default true
+   */
+  private _isActive: boolean = true;
+
+  /**
+   * Creates a new Timer instance.
+   *
+   * @param {() => void} callback the function to call when the timer fires
+   * @param {number} dueTime the scheduler time to first fire at
+   * @param {number | null} interval the time between repeats, or null
+   * @param {number} sequence the order the timer was created in
+   */
+  constructor(callback: () => void, dueTime: number, interval: number | null, sequence: number) {
+    this.callback = callback;
+    this.dueTime = dueTime;
+    this.interval = interval;
+    this.sequence = sequence;
+  }
+
+  /**
+   * Calls the timer's callback, then schedules the next repeat or
+   * deactivates the timer.
+   */
+  fire = (): void => {
+    if (this.interval === null) this._isActive = false;
+    else this.dueTime += this.interval;
+
+    this.callback();
+  };
+
+  /**
+   * Stops the timer from firing again.
+   */
+  cancel = (): void => {
+    this._isActive = false;
+  };
+
+  /**
+   * Whether or not the timer will fire again.
+   */
+  get isActive(): boolean {
+    return this._isActive;
+  }
+}
+
+/**
+ * A generator function started on a scheduler. The scheduler resumes it
+ * every time the instruction it yielded is met.
+ */
+export class Coroutine implements Coroutinable {
+  /**
+   * Resolves with true once the coroutine returns, or false if it is
+   * cancelled. Rejects with any error the coroutine does not catch.
+   *
+   * @readonly
+   */
+  readonly finished: Promise<boolean>;
+
+  /**
+   * The running generator.
+   *
+   * @private
+   */
+  private readonly generator: CoroutineGenerator;
+
+  /**
+   * @private
+   * @default true
+   */
+  private _isActive: boolean = true;
+
+  /**
+   * Whether or not the generator is running, in which case it cannot be
+   * returned from when cancelled.
+   *
+   * @private
+   * @default false
+   */
+  private isRunning: boolean = false;
+
+  /**
+   * Settles the finished promise.
+   *
+   * @private
+   */
+  private resolveFinished: (isCompleted: boolean) => void = () => { };
+
+  /**
+   * @private
+   */
+  private rejectFinished: (reason: unknown) => void = () => { };
+
+  /**
+   * Creates a new Coroutine instance. The coroutine does nothing until it is
+   * resumed by a scheduler.
+   *
+   * @param {CoroutineGenerator} generator the generator to run
+   */
+  constructor(generator: CoroutineGenerator) {
+    this.generator = generator;
+
+    this.finished = new Promise((resolve, reject) => {
+      this.resolveFinished = resolve;
+      this.rejectFinished = reject;
+    });
+  }
+
+  /**
+   * Runs the coroutine until it yields its next instruction.
+   *
+   * @param thrown an error to throw into the coroutine where it is suspended
+   *
+   * @returns {CoroutineInstruction | null} the yielded instruction, or null if
+   * the coroutine has finished
+   */
+  resume = (thrown?: { error: unknown }): CoroutineInstruction | null => {
+    if (!this._isActive) return null;
+
+    let result: IteratorResult<CoroutineInstruction, void>;
+    this.isRunning = true;
+
+    try {
+      result = thrown ? this.generator.throw(thrown.error) : this.generator.next();
+    } catch (error) {
+      this._isActive = false;
+      this.rejectFinished(error);
+      return null;
+    } finally {
+      this.isRunning = false;
+    }
+
+    if (!this._isActive) return null;
+
+    if (result.done) {
+      this._isActive = false;
+      this.resolveFinished(true);
+      return null;
+    }
+
+    return result.value;
+  };
+
+  /**
+   * Stops the coroutine where it is suspended, running its finally blocks.
+   */
+  cancel = (): void => {
+    if (!this._isActive) return;
+
+    this._isActive = false;
+    if (!this.isRunning) this.generator.return();
+
+    this.resolveFinished(false);
+  };
+
+  /**
+   * Whether or not the coroutine will be resumed again.
+   */
+  get isActive(): boolean {
+    return this._isActive;
+  }
+}
+
+/**
+ * A min-heap of timers, ordered by due time and then creation order.
+ */
+class TimerQueue {
+  /**
+   * The timers, in heap order.
+   *
+   * @private
+   * @default []
+   */
+  private heap: Array<Timer> = [];
+
+  /**
+   * Adds a timer to the queue.
+   *
+   * @param {Timer} timer the timer to add
+   */
+  push = (timer: Timer): void => {
+    this.heap.push(timer);
+
+    for (let index = this.heap.length - 1; index > 0;) {
+      const parent: number = (index - 1) >> 1;
+      if (!this.precedes(this.heap[index], this.heap[parent])) break;
+
+      this.swap(index, parent);
+      index = parent;
+    }
+  };
+
+  /**
+   * Gets the timer that is due soonest without removing it.
+   *
+   * @returns {Timer | undefined} the timer, or undefined if the queue is empty
+   */
+  peek = (): Timer | undefined => this.heap[0];
+
+  /**
+   * Removes the timer that is due soonest.
+   *
+   * @returns {Timer | undefined} the timer, or undefined if the queue is empty
+   */
+  pop = (): Timer | undefined => {
+    const first: Timer | undefined = this.heap[0];
+    const last: Timer | undefined = this.heap.pop();
+    if (first === last) return first;
+
+    this.heap[0] = last!;
+
+    for (let index = 0; ;) {
+      const left: number = index * 2 + 1;
+      const right: number = left + 1;
+      let next: number = index;
+
+      if (left < this.heap.length && this.precedes(this.heap[left], this.heap[next])) next = left;
+      if (right < this.heap.length && this.precedes(this.heap[right], this.heap[next])) next = right;
+      if (next === index) break;
+
+      this.swap(index, next);
+      index = next;
+    }
+
+    return first;
+  };
+
+  /**
+   * Removes every timer from the queue.
+   */
+  clear = (): void => {
+    this.heap = [];
+  };
+
+  /**
+   * Checks whether or not a timer fires before another.
+   *
+   * @private
+   *
+   * @param {Timer} a the first timer
+   * @param {Timer} b the second timer
+   *
+   * @returns {boolean} true if a fires first
+   */
+  private precedes = (a: Timer, b: Timer): boolean => a.dueTime < b.dueTime || (a.dueTime === b.dueTime && a.sequence < b.sequence);
+
+  /**
+   * Swaps two timers in the heap.
+   *
+   * @private
+   *
+   * @param {number} a the index of the first timer
+   * @param {number} b the index of the second timer
+   */
+  private swap = (a: number, b: number): void => {
+    [this.heap[a], this.heap[b]] = [this.heap[b], this.heap[a]];
+  };
+
+  /**
+   * The timers in the queue, in no particular order.
+   */
+  get timers(): ReadonlyArray<Timer> {
+    return this.heap;
+  }
+}
+
+type Suspension = {
+  coroutine: Coroutine;
+  isReady: () => boolean;
+};
+
+/**
+ * Runs timers and coroutines in step with the fixed tick. Unlike
+ * setTimeout, scheduled time only passes while the scheduler's owner is
+ * ticked, so timers stop while the engine is paused and follow its time
+ * scale. The engine and every scene have their own scheduler.
+ *
+ * Coroutines are generator functions that yield the instructions returned by
+ * wait(), nextTick() and until(). They are resumed synchronously from
+ * update(), so every tick that meets a coroutine's instruction runs it, even
+ * when several ticks run in the same frame. Cancelling every scheduled task
+ * cancels pending coroutines, which runs their finally blocks.
+ */
+export default class Scheduler implements Schedulable {
+  /**
+   * The time that has passed on the scheduler in milliseconds.
+   *
+   * @private
+   * @default 0
+   */
+  private _time: number = 0;
+
+  /**
+   * The number of timers created on the scheduler, used to order timers that
+   * are due at the same time.
+   *
+   * @private
+   * @default 0
+   */
+  private timerSequence: number = 0;
+
+  /**
+   * Timers that may fire during the next update.
+   *
+   * @private
+   */
+  private queue: TimerQueue = new TimerQueue();
+
+  /**
+   * Timers created since the last update began. They join the queue when the
+   * next update begins, so they never fire during the update they were
+   * created in.
+   *
+   * @private
+   * @default []
+   */
+  private pendingTimers: Array<Timer> = [];
+
+  /**
+   * Coroutines waiting for their instruction to be met, in the order they
+   * were suspended. Coroutines suspended during an update are not resumed
+   * until the next one.
+   *
+   * @private
+   * @default []
+   */
+  private suspensions: Array<Suspension> = [];
+
+  /**
+   * Coroutines that have been started and have not finished.
+   *
+   * @private
+   * @default new Set()
+   */
+  private coroutines: Set<Coroutine> = new Set();
+
+  /**
+   * Calls a function once after a delay.
+   *
+   * @param {number} delay the delay in milliseconds
+   * @param {() => void} callback the function to call
+   *
+   * @returns {Timer} a handle to cancel the timer with
+   */
+  after = (delay: number, callback: () => void): Timer => {
+    return this.addTimer(new Timer(callback, this._time + Math.max(delay, 0), null, this.timerSequence++));
+  };
+
+  /**
+   * Calls a function repeatedly, first after one interval. If an update
+   * spans several intervals, the function is called once for each.
+   *
+   * @param {number} interval the time between calls in milliseconds
+   * @param {() => void} callback the function to call
+   *
+   * @returns {Timer} a handle to cancel the timer with
+   *
+   * @throws {RangeError} if the interval is not positive
+   */
+  every = (interval: number, callback: () => void): Timer => {
+    if (interval <= 0) throw new RangeError("Timer interval must be positive.");
+
+    return this.addTimer(new Timer(callback, this._time + interval, interval, this.timerSequence++));
+  };
+
+  /**
+   * Starts a coroutine. It runs straight away until it yields its first
+   * instruction.
+   *
+   * @param {CoroutineGenerator} generator the generator to run, usually the
+   * result of calling a generator function
+   *
+   * @returns {Coroutine} a handle to cancel the coroutine with
+   */
+  start = (generator: CoroutineGenerator): Coroutine => {
+    const coroutine: Coroutine = new Coroutine(generator);
+
+    this.coroutines.add(coroutine);
+    this.resume(coroutine);
+
+    return coroutine;
+  };
+
+  /**
+   * Creates an instruction for a coroutine to wait for an amount of scheduler
+   * time to pass.
+   *
+   * @param {number} milliseconds the time to wait
+   *
+   * @returns {CoroutineInstruction} the instruction to yield
+   */
+  wait = (milliseconds: number): CoroutineInstruction => ({ type: "wait", milliseconds });
+
+  /**
+   * Creates an instruction for a coroutine to wait for the next update of the
+   * scheduler.
+   *
+   * @returns {CoroutineInstruction} the instruction to yield
+   */
+  nextTick = (): CoroutineInstruction => this.wait(0);
+
+  /**
+   * Creates an instruction for a coroutine to wait for a condition to become
+   * true. The condition is checked once per update, after timers have fired.
+   * If it throws, the error is thrown into the coroutine.
+   *
+   * @param {() => boolean} predicate the condition to wait for
+   *
+   * @returns {CoroutineInstruction} the instruction to yield
+   */
+  until = (predicate: () => boolean): CoroutineInstruction => ({ type: "until", predicate });
+
+  /**
+   * Cancels every coroutine and timer. Cancelled coroutines run their finally
+   * blocks, and their finished promises resolve with false.
+   */
+  cancelAll = (): void => {
+    const coroutines: Array<Coroutine> = Array.from(this.coroutines);
+    this.coroutines.clear();
+    this.suspensions = [];
+    coroutines.forEach(coroutine => coroutine.cancel());
+
+    [...this.queue.timers, ...this.pendingTimers].forEach(timer => timer.cancel());
+    this.queue.clear();
+    this.pendingTimers = [];
+  };
+
+  /**
+   * Advances the scheduler, fires every timer that has become due in order
+   * of due time, and resumes coroutines whose instruction has been met.
+   *
+   * @param {number} deltaTime the time to advance by in milliseconds
+   */
+  update = (deltaTime: number): void => {
+    this._time += deltaTime;
+
+    this.pendingTimers.forEach(timer => this.queue.push(timer));
+    this.pendingTimers = [];
+
+    const suspensions: Array<Suspension> = this.suspensions;
+    this.suspensions = [];
+
+    for (let timer = this.getNextDueTimer(); timer; timer = this.getNextDueTimer()) {
+      timer.fire();
+      if (timer.isActive) this.queue.push(timer);
+    }
+
+    suspensions.forEach(suspension => {
+      if (!suspension.coroutine.isActive) {
+        this.coroutines.delete(suspension.coroutine);
+        return;
+      }
+
+      let isReady: boolean;
+
+      try {
+        isReady = suspension.isReady();
+      } catch (error) {
+        this.resume(suspension.coroutine, { error });
+        return;
+      }
+
+      if (isReady) this.resume(suspension.coroutine);
+      else this.suspensions.push(suspension);
+    });
+  };
+
+  /**
+   * Adds a timer to the scheduler.
+   *
+   * @private
+   *
+   * @param {Timer} timer the timer to add
+   *
+   * @returns {Timer} the timer
+   */
+  private addTimer = (timer: Timer): Timer => {
+    this.pendingTimers.push(timer);
+
+    return timer;
+  };
+
+  /**
+   * Runs a coroutine until it yields, and suspends it until its instruction
+   * is met.
+   *
+   * @private
+   *
+   * @param {Coroutine} coroutine the coroutine to resume
+   * @param thrown an error to throw into the coroutine
+   */
+  private resume = (coroutine: Coroutine, thrown?: { error: unknown }): void => {
+    const instruction: CoroutineInstruction | null = coroutine.resume(thrown);
+
+    if (instruction === null) {
+      this.coroutines.delete(coroutine);
+      return;
+    }
+
+    if (instruction.type === "until") {
+      this.suspensions.push({ coroutine, isReady: instruction.predicate });
+      return;
+    }
+
+    const dueTime: number = this._time + Math.max(instruction.milliseconds, 0);
+    this.suspensions.push({ coroutine, isReady: () => this._time >= dueTime });
+  };
+
+  /**
+   * Removes and returns the active timer that is due soonest, dropping
+   * cancelled timers on the way.
+   *
+   * @private
+   *
+   * @returns {Timer | undefined} the timer, or undefined if no timer is due
+   */
+  private getNextDueTimer = (): Timer | undefined => {
+    while (this.queue.peek()?.isActive === false) this.queue.pop();
+
+    const timer: Timer | undefined = this.queue.peek();
+    return timer && timer.dueTime <= this._time ? this.queue.pop() : undefined;
+  };
+
+  /**
+   * The time that has passed on the scheduler in milliseconds.
+   */
+  get time(): number {
+    return this._time;
+  }
+
+  /**
+   * The number of active timers.
+   */
+  get timerCount(): number {
+    return [...this.queue.timers, ...this.pendingTimers].filter(timer => timer.isActive).length;
+  }
+}
@@ -0,0 +1,182 @@
+const DEFAULT_DURATION: number = 500;
+
+/**
+ * Converts a direction into a unit offset.
+ *
+ * @param {TransitionDirection} direction the direction to convert
+ *
+ * @returns {[number, number]} the x and y components of the offset
+ */
+const getDirectionOffset = (direction: TransitionDirection): [number, number] => {
+  switch (direction) {
+    case "left": return [-1, 0];
+    case "right": return [1, 0];
+    case "up": return [0, -1];
+    case "down": return [0, 1];
+  }
+};
+
+/**
+ * The base class for scene transitions.
+ */
+export default abstract class Transition implements Transitionable {
+  /**
+   * The duration of the transition in milliseconds.
+   *
+   * @readonly
+   * @default 500
+   */
+  readonly duration: number;
+
+  /**
+   * Maps linear progress to eased progress.
+   *
+   * @readonly
+   * @default linear
+   */
+  readonly easing: EasingFunction;
+
+  /**
+   * Creates a new Transition instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: TransitionOptions = {}) {
+    this.duration = options.duration ?? DEFAULT_DURATION;
+    this.easing = options.easing ?? ((progress: number) => progress);
+  }
+
+  /**
+   * Renders a frame of the transition.
+   *
+   * @param {RenderBackendable} renderer the render backend to draw with
+   * @param {number} progress the eased progress of the transition, from 0 to 1
+   * @param renderFrom renders the scenes being transitioned from
+   * @param renderTo renders the scenes being transitioned to
+   * @param {Vectorable} canvasSize the size of the canvas
+   */
+  abstract render: (renderer: RenderBackendable, progress: number, renderFrom: () => void, renderTo: () => void, canvasSize: Vectorable) => void;
+}
+
+/**
+ * Fades between two sets of scenes. Crossfades by default, or fades out to
+ * and back in from a solid color if one is given.
+ */
+export class FadeTransition extends Transition {
+  /**
+   * The color to fade through, or null to crossfade.
+   *
+   * @readonly
+   * @default null
+   */
+  readonly color: string | null;
+
+  /**
+   * Creates a new FadeTransition instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: TransitionOptions & Partial<{ color: string }> = {}) {
+    super(options);
+    this.color = options.color ?? null;
+  }
+
+  render = (renderer: RenderBackendable, progress: number, renderFrom: () => void, renderTo: () => void, canvasSize: Vectorable): void => {
+    if (this.color === null) {
+      renderFrom();
+
+      renderer.save();
+      renderer.setAlpha(progress);
+      renderTo();
+      renderer.restore();
+      return;
+    }
+
+    if (progress < 0.5) renderFrom();
+    else renderTo();
+
+    renderer.save();
+    renderer.setAlpha(1 - Math.abs(progress * 2 - 1));
+    renderer.setFillStyle(this.color);
+    renderer.fillRect(0, 0, canvasSize.x, canvasSize.y);
+    renderer.restore();
+  };
+}
+
+/**
+ * Slides the incoming scenes in, pushing the outgoing scenes out in the same
+ * direction.
+ */
+export class SlideTransition extends Transition {
+  /**
+   * The direction the scenes move in.
+   *
+   * @readonly
+   * @default "left"
+   */
+  readonly direction: TransitionDirection;
+
+  /**
+   * Creates a new SlideTransition instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: TransitionOptions & Partial<{ direction: TransitionDirection }> = {}) {
+    super(options);
+    this.direction = options.direction ?? "left";
+  }
+
+  render = (renderer: RenderBackendable, progress: number, renderFrom: () => void, renderTo: () => void, canvasSize: Vectorable): void => {
+    const [x, y] = getDirectionOffset(this.direction);
+
+    renderer.save();
+    renderer.translate(x * canvasSize.x * progress, y * canvasSize.y * progress);
+    renderFrom();
+    renderer.restore();
+
+    renderer.save();
+    renderer.translate(x * canvasSize.x * (progress - 1), y * canvasSize.y * (progress - 1));
+    renderTo();
+    renderer.restore();
+  };
+}
+
+/**
+ * Reveals the incoming scenes over the outgoing scenes, with an edge that
+ * moves across the canvas.
+ */
+export class WipeTransition extends Transition {
+  /**
+   * The direction the edge moves in.
+   *
+   * @readonly
+   * @default "right"
+   */
+  readonly direction: TransitionDirection;
+
+  /**
+   * Creates a new WipeTransition instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: TransitionOptions & Partial<{ direction: TransitionDirection }> = {}) {
+    super(options);
+    this.direction = options.direction ?? "right";
+  }
+
+  render = (renderer: RenderBackendable, progress: number, renderFrom: () => void, renderTo: () => void, canvasSize: Vectorable): void => {
+    const [x, y] = getDirectionOffset(this.direction);
+    const width: number = x === 0 ? canvasSize.x : canvasSize.x * progress;
+    const height: number = y === 0 ? canvasSize.y : canvasSize.y * progress;
+
+    renderFrom();
+
+    renderer.save();
+    renderer.beginPath();
+    renderer.rect(x < 0 ? canvasSize.x - width : 0, y < 0 ? canvasSize.y - height : 0, width, height);
+    renderer.clip();
+    renderer.clearRect(0, 0, canvasSize.x, canvasSize.y);
+    renderTo();
+    renderer.restore();
+  };
+}
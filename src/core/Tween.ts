@@ -0,0 +1,448 @@
+import Vector2D from "@/math/Vector2D";
+import Easing from "@/math/Easing";
+
+const DEFAULT_DURATION: number = 500;
+
+/**
+ * Animates numeric and vector properties of an object from their current
+ * values to target values. Tweens are advanced by the engine's tween manager
+ * every tick, so they follow the engine's time scale and stop while it is
+ * paused.
+ *
+ * Start values are read when the delay ends, so a tween queued in a sequence
+ * continues from wherever the previous tween left off. A tween whose target
+ * is an element is cancelled once the element is destroyed.
+ */
+export default class Tween<Target extends object> implements Tweenable {
+  /**
+   * The object being animated.
+   *
+   * @readonly
+   */
+  readonly target: Target;
+
+  /**
+   * The values the target's properties are animated to.
+   *
+   * @readonly
+   */
+  readonly values: TweenValues<Target>;
+
+  /**
+   * The duration of one pass of the tween in milliseconds.
+   *
+   * @readonly
+   * @default 500
+   */
+  readonly duration: number;
+
+  /**
+   * The time to wait before the tween starts in milliseconds.
+   *
+   * @readonly
+   * @default 0
+   */
+  readonly delay: number;
+
+  /**
+   * Maps linear progress to eased progress.
+   *
+   * @readonly
+   * @default Easing.linear
+   */
+  readonly easing: EasingFunction;
+
+  /**
+   * The number of extra passes played after the first. Infinity repeats
+   * until the tween is cancelled.
+   *
+   * @readonly
+   * @default 0
+   */
+  readonly repeat: number;
+
+  /**
+   * Whether or not every other pass plays backwards. A yoyo tween with an
+   * odd number of repeats ends where it started.
+   *
+   * @readonly
+   * @default false
+   */
+  readonly yoyo: boolean;
+
+  /**
+   * Resolves with true once the tween completes, or false if it is
+   * cancelled.
+   *
+   * @readonly
+   */
+  readonly finished: Promise<boolean>;
+
+  /**
+   * Called after the target's properties are updated, with the linear
+   * progress of the current pass.
+   *
+   * @private
+   */
+  private readonly onUpdate?: (progress: number) => void;
+
+  /**
+   * Called once the tween completes. Not called if the tween is cancelled.
+   *
+   * @private
+   */
+  private readonly onComplete?: () => void;
+
+  /**
+   * Time elapsed since the tween was first updated in milliseconds, including
+   * the delay.
+   *
+   * @private
+   * @default 0
+   */
+  private elapsed: number = 0;
+
+  /**
+   * The values of the animated properties when the delay ended, or null if
+   * the tween has not started.
+   *
+   * @private
+   * @default null
+   */
+  private startValues: Map<string, number | Vectorable> | null = null;
+
+  /**
+   * @private
+   * @default false
+   */
+  private _isFinished: boolean = false;
+
+  /**
+   * @private
+   * @default 0
+   */
+  private _unusedTime: number = 0;
+
+  /**
+   * Resolves the finished promise.
+   *
+   * @private
+   */
+  private resolveFinished: (isCompleted: boolean) => void = () => { };
+
+  /**
+   * Creates a new Tween instance. The tween does nothing until it is added
+   * to a tween manager or group.
+   *
+   * @param {Target} target the object to animate
+   * @param {TweenValues<Target>} values the values to animate to
+   * @param options optional properties to apply at creation
+   */
+  constructor(target: Target, values: TweenValues<Target>, options: TweenOptions = {}) {
+    this.target = target;
+    this.values = values;
+    this.duration = options.duration ?? DEFAULT_DURATION;
+    this.delay = options.delay ?? 0;
+    this.easing = options.easing ?? Easing.linear;
+    this.repeat = options.repeat ?? 0;
+    this.yoyo = options.yoyo ?? false;
+    this.onUpdate = options.onUpdate;
+    this.onComplete = options.onComplete;
+
+    this.finished = new Promise(resolve => this.resolveFinished = resolve);
+  }
+
+  /**
+   * Advances the tween and updates the target's properties.
+   *
+   * @param {number} deltaTime the time to advance by in milliseconds
+   *
+   * @returns {boolean} true if the tween has finished
+   */
+  update = (deltaTime: number): boolean => {
+    if (this._isFinished) {
+      this._unusedTime = deltaTime;
+      return true;
+    }
+
+    if ((<Partial<Elementable>>this.target).isQueuedForDisposal) {
+      this.cancel();
+      this._unusedTime = deltaTime;
+      return true;
+    }
+
+    this.elapsed += deltaTime;
+
+    const activeTime: number = this.elapsed - this.delay;
+    if (activeTime < 0) return false;
+
+    this.startValues ??= this.readStartValues();
+
+    const passCount: number = this.repeat + 1;
+    const passes: number = activeTime / this.duration;
+
+    if (this.duration <= 0 || passes >= passCount) {
+      this._unusedTime = this.duration <= 0 ? activeTime : activeTime - passCount * this.duration;
+      this.apply(this.yoyo && (passCount - 1) % 2 === 1 ? 0 : 1);
+      this.finish(true);
+      return true;
+    }
+
+    const pass: number = Math.floor(passes);
+    const progress: number = passes - pass;
+
+    this.apply(this.yoyo && pass % 2 === 1 ? 1 - progress : progress);
+    return false;
+  };
+
+  /**
+   * Stops the tween where it is. The target keeps its current values.
+   */
+  cancel = (): void => {
+    if (!this._isFinished) this.finish(false);
+  };
+
+  /**
+   * Checks whether or not the tween animates an object.
+   *
+   * @param {object} target the object to check
+   *
+   * @returns {boolean} true if the object is the tween's target
+   */
+  isTargeting = (target: object): boolean => this.target === target;
+
+  /**
+   * Reads the current values of the animated properties.
+   *
+   * @private
+   *
+   * @returns {Map<string, number | Vectorable>} the values by property name
+   */
+  private readStartValues = (): Map<string, number | Vectorable> => {
+    const target: Record<string, number | Vectorable> = <Record<string, number | Vectorable>><unknown>this.target;
+
+    return new Map(Object.keys(this.values).map(key => [key, target[key]]));
+  };
+
+  /**
+   * Sets the animated properties to their values at a point in a pass.
+   *
+   * @private
+   *
+   * @param {number} progress linear progress through the pass, from 0 to 1
+   */
+  private apply = (progress: number): void => {
+    const easedProgress: number = this.easing(progress);
+    const target: Record<string, number | Vectorable> = <Record<string, number | Vectorable>><unknown>this.target;
+    const values: Record<string, number | Vectorable> = <Record<string, number | Vectorable>><unknown>this.values;
+
+    this.startValues!.forEach((start, key) => {
+      const end: number | Vectorable = values[key];
+
+      target[key] = typeof start === "number"
+        ? start + (<number>end - start) * easedProgress
+        : new Vector2D(
+          start.x + ((<Vectorable>end).x - start.x) * easedProgress,
+          start.y + ((<Vectorable>end).y - start.y) * easedProgress,
+        );
+    });
+
+    this.onUpdate?.(progress);
+  };
+
+  /**
+   * Marks the tween as finished and resolves its promise.
+   *
+   * @private
+   *
+   * @param {boolean} isCompleted true if the tween completed, false if it was
+   * cancelled
+   */
+  private finish = (isCompleted: boolean): void => {
+    this._isFinished = true;
+    if (isCompleted) this.onComplete?.();
+
+    this.resolveFinished(isCompleted);
+  };
+
+  /**
+   * Whether or not the tween has completed or been cancelled.
+   */
+  get isFinished(): boolean {
+    return this._isFinished;
+  }
+
+  /**
+   * The time in milliseconds of the latest update that was not needed to
+   * finish the tween, or 0 if the tween has not finished.
+   */
+  get unusedTime(): number {
+    return this._unusedTime;
+  }
+}
+
+/**
+ * The base class for tweens made of other tweens.
+ */
+abstract class TweenGroup implements Tweenable {
+  /**
+   * The tweens in the group.
+   *
+   * @readonly
+   */
+  readonly tweens: ReadonlyArray<Tweenable>;
+
+  /**
+   * Resolves with true once every tween in the group completes, or false if
+   * the group is cancelled.
+   *
+   * @readonly
+   */
+  readonly finished: Promise<boolean>;
+
+  /**
+   * Called once the group completes. Not called if the group is cancelled.
+   *
+   * @private
+   */
+  private readonly onComplete?: () => void;
+
+  /**
+   * @private
+   * @default false
+   */
+  private _isFinished: boolean = false;
+
+  /**
+   * Set by subclasses once the group finishes.
+   *
+   * @default 0
+   */
+  protected _unusedTime: number = 0;
+
+  /**
+   * Resolves the finished promise.
+   *
+   * @private
+   */
+  private resolveFinished: (isCompleted: boolean) => void = () => { };
+
+  /**
+   * Creates a new TweenGroup instance.
+   *
+   * @param {Array<Tweenable>} tweens the tweens in the group
+   * @param options optional properties to apply at creation
+   */
+  constructor(tweens: Array<Tweenable>, options: TweenGroupOptions = {}) {
+    this.tweens = tweens;
+    this.onComplete = options.onComplete;
+
+    this.finished = new Promise(resolve => this.resolveFinished = resolve);
+  }
+
+  /**
+   * Advances the group.
+   *
+   * @param {number} deltaTime the time to advance by in milliseconds
+   *
+   * @returns {boolean} true if the group has finished
+   */
+  update = (deltaTime: number): boolean => {
+    if (this._isFinished) {
+      this._unusedTime = deltaTime;
+      return true;
+    }
+
+    if (!this.internalUpdate(deltaTime)) return false;
+
+    this._isFinished = true;
+    this.onComplete?.();
+    this.resolveFinished(true);
+
+    return true;
+  };
+
+  /**
+   * Advances the tweens in the group.
+   *
+   * @param {number} deltaTime the time to advance by in milliseconds
+   *
+   * @returns {boolean} true if every tween in the group has finished
+   */
+  protected abstract internalUpdate: (deltaTime: number) => boolean;
+
+  /**
+   * Cancels every unfinished tween in the group.
+   */
+  cancel = (): void => {
+    if (this._isFinished) return;
+
+    this._isFinished = true;
+    this.tweens.forEach(tween => tween.cancel());
+    this.resolveFinished(false);
+  };
+
+  /**
+   * Checks whether or not any tween in the group animates an object.
+   *
+   * @param {object} target the object to check
+   *
+   * @returns {boolean} true if the object is targeted by the group
+   */
+  isTargeting = (target: object): boolean => this.tweens.some(tween => tween.isTargeting(target));
+
+  /**
+   * Whether or not the group has completed or been cancelled.
+   */
+  get isFinished(): boolean {
+    return this._isFinished;
+  }
+
+  /**
+   * The time in milliseconds of the latest update that was not needed to
+   * finish the group, or 0 if the group has not finished.
+   */
+  get unusedTime(): number {
+    return this._unusedTime;
+  }
+}
+
+/**
+ * Plays tweens one after another. Time left over when a tween finishes is
+ * passed on to the next one. A tween that is cancelled, for example because
+ * its target was destroyed, is skipped.
+ */
+export class TweenSequence extends TweenGroup {
+  /**
+   * The index of the tween being played.
+   *
+   * @private
+   * @default 0
+   */
+  private index: number = 0;
+
+  protected internalUpdate = (deltaTime: number): boolean => {
+    while (this.index < this.tweens.length) {
+      const tween: Tweenable = this.tweens[this.index];
+      if (!tween.update(deltaTime)) return false;
+
+      this.index++;
+      deltaTime = tween.unusedTime;
+    }
+
+    this._unusedTime = deltaTime;
+    return true;
+  };
+}
+
+/**
+ * Plays tweens at the same time, finishing once they have all finished.
+ */
+export class TweenParallel extends TweenGroup {
+  protected internalUpdate = (deltaTime: number): boolean => {
+    const isFinished: boolean = this.tweens.reduce((isFinished, tween) => tween.update(deltaTime) && isFinished, true);
+    if (isFinished) this._unusedTime = Math.min(deltaTime, ...this.tweens.map(tween => tween.unusedTime));
+
+    return isFinished;
+  };
+}
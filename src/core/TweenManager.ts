@@ -0,0 +1,108 @@
+import Tween, { TweenParallel, TweenSequence } from "./Tween";
+
+/**
+ * Plays tweens. The engine owns a tween manager and updates it every tick
+ * after its scenes, with the engine's time scale.
+ */
+export default class TweenManager implements TweenManagerable {
+  /**
+   * Tweens and groups being played, in the order they were added.
+   *
+   * @private
+   * @default []
+   */
+  private tweens: Array<Tweenable> = [];
+
+  /**
+   * Starts playing a tween or group.
+   *
+   * @param {Type} tween the tween to play
+   *
+   * @returns {Type} the tween
+   */
+  add = <Type extends Tweenable>(tween: Type): Type => {
+    this.tweens.push(tween);
+
+    return tween;
+  };
+
+  /**
+   * Animates properties of an object to new values.
+   *
+   * @param {Target} target the object to animate
+   * @param {TweenValues<Target>} values the values to animate to
+   * @param options optional tween properties
+   *
+   * @returns {Tween<Target>} the playing tween
+   */
+  to = <Target extends object>(target: Target, values: TweenValues<Target>, options: TweenOptions = {}): Tween<Target> => {
+    return this.add(new Tween(target, values, options));
+  };
+
+  /**
+   * Plays tweens one after another. The tweens must not be added to the
+   * manager themselves.
+   *
+   * @param {Array<Tweenable>} tweens the tweens to play
+   * @param options optional group properties
+   *
+   * @returns {TweenSequence} the playing sequence
+   */
+  sequence = (tweens: Array<Tweenable>, options: TweenGroupOptions = {}): TweenSequence => {
+    return this.add(new TweenSequence(tweens, options));
+  };
+
+  /**
+   * Plays tweens at the same time. The tweens must not be added to the
+   * manager themselves.
+   *
+   * @param {Array<Tweenable>} tweens the tweens to play
+   * @param options optional group properties
+   *
+   * @returns {TweenParallel} the playing group
+   */
+  parallel = (tweens: Array<Tweenable>, options: TweenGroupOptions = {}): TweenParallel => {
+    return this.add(new TweenParallel(tweens, options));
+  };
+
+  /**
+   * Cancels every tween and group that animates an object.
+   *
+   * @param {object} target the object to stop animating
+   *
+   * @returns {number} the number of tweens and groups cancelled
+   */
+  cancelTweensOf = (target: object): number => {
+    const tweens: Array<Tweenable> = this.tweens.filter(tween => !tween.isFinished && tween.isTargeting(target));
+    tweens.forEach(tween => tween.cancel());
+
+    return tweens.length;
+  };
+
+  /**
+   * Cancels every tween and group being played.
+   */
+  cancelAll = (): void => {
+    this.tweens.forEach(tween => tween.cancel());
+    this.tweens = [];
+  };
+
+  /**
+   * Advances every tween and group, and stops playing the ones that have
+   * finished. Tweens added during the update start on the next update.
+   *
+   * @param {number} deltaTime the time to advance by in milliseconds
+   */
+  update = (deltaTime: number): void => {
+    [...this.tweens].forEach(tween => tween.update(deltaTime));
+
+    this.tweens = this.tweens.filter(tween => !tween.isFinished);
+  };
+
+  /**
+   * The number of tweens and groups being played.
+   */
+  get count(): number {
+    return this.tweens.length;
+  }
+}
@@ -0,0 +1,196 @@
+import Vector2D from "@/math/Vector2D";
+
+/**
+ * Maps the engine's logical coordinate space onto the physical pixels of the
+ * canvas. Without a fixed resolution, one logical unit is one CSS pixel.
+ * With a fixed resolution, the logical space is scaled onto the canvas using
+ * a scale mode:
+ *
+ * - fit: scales uniformly until the resolution fits, letterboxing the rest
+ * - fill: scales uniformly until the canvas is covered, cropping the rest
+ * - stretch: scales each axis independently to cover the canvas exactly
+ * - integer: like fit, but only by whole multiples, without smoothing
+ */
+export default class Viewport implements Viewportable {
+  /**
+   * The logical resolution, or null if logical units are CSS pixels.
+   *
+   * @readonly
+   */
+  readonly resolution: Vector2D | null;
+
+  /**
+   * How the logical resolution is scaled onto the canvas.
+   *
+   * @default "fit"
+   */
+  scaleMode: ScaleMode;
+
+  /**
+   * The color of the bars drawn around the logical area in fit and integer
+   * modes.
+   *
+   * @default "black"
+   */
+  letterboxColor: string;
+
+  /**
+   * The size of the canvas in CSS pixels.
+   *
+   * @private
+   * @default new Vector2D()
+   */
+  private cssSize: Vector2D = new Vector2D();
+
+  /**
+   * The ratio of physical pixels to CSS pixels.
+   *
+   * @private
+   * @default 1
+   */
+  private pixelRatio: number = 1;
+
+  /**
+   * Creates a new Viewport instance.
+   *
+   * @param options optional properties to apply at creation
+   *
+   * @throws {RangeError} if the resolution is not positive.
+   */
+  constructor(options: ViewportOptions = {}) {
+    this.resolution = options.resolution ? new Vector2D(options.resolution.x, options.resolution.y) : null;
+    this.scaleMode = options.scaleMode ?? "fit";
+    this.letterboxColor = options.letterboxColor ?? "black";
+
+    if (this.resolution && (this.resolution.x <= 0 || this.resolution.y <= 0))
+      throw new RangeError("Viewport resolution must be positive.");
+  }
+
+  /**
+   * Updates the viewport to a new canvas size.
+   *
+   * @param {number} width the width of the canvas in CSS pixels
+   * @param {number} height the height of the canvas in CSS pixels
+   * @param {number} pixelRatio the ratio of physical pixels to CSS pixels
+   */
+  resize = (width: number, height: number, pixelRatio: number): void => {
+    this.cssSize = new Vector2D(width, height);
+    this.pixelRatio = pixelRatio;
+  };
+
+  /**
+   * Converts a point relative to the canvas from CSS pixels into logical
+   * units.
+   *
+   * @param {number} x the x position in CSS pixels
+   * @param {number} y the y position in CSS pixels
+   *
+   * @returns {Vector2D} the position in logical units
+   */
+  toLogical = (x: number, y: number): Vector2D => {
+    const { scale, offset } = this;
+
+    return new Vector2D((x * this.pixelRatio - offset.x) / scale.x, (y * this.pixelRatio - offset.y) / scale.y);
+  };
+
+  /**
+   * Prepares a renderer to draw in logical units: draws letterbox bars,
+   * applies the viewport transform, and clips drawing to the logical area.
+   * Changes render state, so should be wrapped in save() and restore().
+   *
+   * @param {RenderBackendable} renderer the render backend to prepare
+   */
+  apply = (renderer: RenderBackendable): void => {
+    const { scale, offset, physicalSize } = this;
+
+    if (this.isLetterboxed) {
+      const width: number = this.size.x * scale.x;
+      const height: number = this.size.y * scale.y;
+
+      renderer.setTransform(1, 0, 0, 1, 0, 0);
+      renderer.setFillStyle(this.letterboxColor);
+      if (offset.x > 0) {
+        renderer.fillRect(0, 0, offset.x, physicalSize.y);
+        renderer.fillRect(offset.x + width, 0, physicalSize.x - offset.x - width, physicalSize.y);
+      }
+      if (offset.y > 0) {
+        renderer.fillRect(0, 0, physicalSize.x, offset.y);
+        renderer.fillRect(0, offset.y + height, physicalSize.x, physicalSize.y - offset.y - height);
+      }
+    }
+
+    renderer.setTransform(scale.x, 0, 0, scale.y, offset.x, offset.y);
+
+    if (!this.resolution) return;
+
+    renderer.beginPath();
+    renderer.rect(0, 0, this.size.x, this.size.y);
+    renderer.clip();
+
+    if (this.scaleMode === "integer") renderer.setImageSmoothing(false);
+  };
+
+  /**
+   * Whether or not bars are drawn around the logical area.
+   *
+   * @private
+   */
+  private get isLetterboxed(): boolean {
+    return this.resolution !== null && (this.scaleMode === "fit" || this.scaleMode === "integer");
+  }
+
+  /**
+   * The size of the logical area in logical units.
+   */
+  get size(): Vector2D {
+    return this.resolution ?? this.cssSize;
+  }
+
+  /**
+   * The size of the canvas in physical pixels.
+   */
+  get physicalSize(): Vector2D {
+    return this.cssSize.multiply(this.pixelRatio);
+  }
+
+  /**
+   * The number of physical pixels per logical unit along each axis.
+   */
+  get scale(): Vector2D {
+    if (!this.resolution) return new Vector2D(this.pixelRatio, this.pixelRatio);
+
+    const scaleX: number = this.physicalSize.x / this.resolution.x;
+    const scaleY: number = this.physicalSize.y / this.resolution.y;
+    let scale: number;
+
+    switch (this.scaleMode) {
+      case "stretch":
+        return new Vector2D(scaleX, scaleY);
+      case "fill":
+        scale = Math.max(scaleX, scaleY);
+        break;
+      case "integer":
+        scale = Math.max(1, Math.floor(Math.min(scaleX, scaleY)));
+        break;
+      default:
+        scale = Math.min(scaleX, scaleY);
+        break;
+    }
+
+    return new Vector2D(scale, scale);
+  }
+
+  /**
+   * The position of the logical origin on the canvas, in physical pixels.
+   * Centers the logical area on the canvas. Integer mode snaps the origin to
+   * whole pixels.
+   */
+  get offset(): Vector2D {
+    if (!this.resolution) return new Vector2D();
+
+    const scale: Vector2D = this.scale;
+    const offset: Vector2D = new Vector2D((this.physicalSize.x - this.resolution.x * scale.x) / 2, (this.physicalSize.y - this.resolution.y * scale.y) / 2);
+
+    return this.scaleMode === "integer" ? offset.floor() : offset;
+  }
+}
@@ -1,5 +1,8 @@
 import Vector2D from "@/math/Vector2D";
 
+const GRAPH_WIDTH: number = 200;
+const GRAPH_HEIGHT: number = 32;
+
 export class ParameterSection implements GUISectionable {
   /**
    * The name of the section.
@@ -25,6 +28,14 @@ export class ParameterSection implements GUISectionable {
    */
   parameters: Map<string, () => Object> = new Map();
 
+  /**
+   * A map containing string keys and callback functions that return a list of
+   * values to be displayed as a line graph, oldest value first.
+   *
+   * @default new Map()
+   */
+  graphs: Map<string, () => Array<number>> = new Map();
+
   /**
    * Creates a new section.
    *
@@ -63,6 +74,32 @@ export class ParameterSection implements GUISectionable {
     return this.parameters.delete(name);
   }
 
+  /**
+   * Adds a new line graph to the current section.
+   *
+   * @param name The title of the graph.
+   * @param callback A callback function that returns the values to graph.
+   *
+   * @returns The current section.
+   */
+  addGraph(name: string, callback: () => Array<number>): GUISectionable {
+    if(this.graphs.has(name)) console.warn(`GUI Graph with name ${name} already exists. This will be overwritten.`);
+
+    this.graphs.set(name, callback);
+    return this;
+  }
+
+  /**
+   * Removes a graph from the current section.
+   *
+   * @param name The name of the graph to remove.
+   *
+   * @returns True if the graph was removed, false otherwise.
+   */
+  removeGraph(name: string): boolean {
+    return this.graphs.delete(name);
+  }
+
   /**
    * Attaches a new subsection to the current section.
    *
@@ -90,24 +127,25 @@ export class ParameterSection implements GUISectionable {
   }
 
   /**
-   * Removes all subsections and parameters from the current section.
+   * Removes all subsections, parameters, and graphs from the current section.
    */
   clear(): void {
     this.subsections = [];
     this.parameters.clear();
+    this.graphs.clear();
   }
 
   /**
    * Renders the current section, all subsections, and all parameters.
    *
-   * @param ctx the canvas context to render to
+   * @param renderer the render backend to draw with
    * @param position the position at which to render the section
    * @param lastClickPosition the position the last click was made at. Used to
    * determine if the section should collapse.
    *
    * @returns the posiiton at which to render the next section
    */
-  render(ctx: CanvasRenderingContext2D, position: Vector2D, lastClickPosition: Vector2D): Vector2D {
+  render(renderer: RenderBackendable, position: Vector2D, lastClickPosition: Vector2D): Vector2D {
     let formattedParameters = Array.from(this.parameters.entries()).map(([name, callback]) => `${name}: ${JSON.stringify(callback(), (_, value: any) => {
       if (typeof value === "function") return value.name;
       if (typeof value === "number") return value.toFixed(2);
@@ -115,7 +153,7 @@ export class ParameterSection implements GUISectionable {
     })}`);
 
     const backgroundPos = new Vector2D(position.x, position.y);
-    let maxBackgroundWidth = Math.max(...formattedParameters.map(parameter => ctx.measureText(parameter).width)) + 64;
+    let maxBackgroundWidth = Math.max(...formattedParameters.map(parameter => renderer.measureText(parameter)), this.graphs.size ? GRAPH_WIDTH : 0) + 64;
     maxBackgroundWidth -= maxBackgroundWidth % 50;
 
     if (lastClickPosition.x > backgroundPos.x &&
@@ -125,30 +163,72 @@ export class ParameterSection implements GUISectionable {
       this.isCollapsed = !this.isCollapsed;
 
     if (!this.isCollapsed) {
-      ctx.fillStyle = "rgba(0,0,0,0.65)";
-      ctx.fillRect(backgroundPos.x, backgroundPos.y, maxBackgroundWidth, this.parameters.size * 16 + 32);
+      renderer.setFillStyle("rgba(0,0,0,0.65)");
+      renderer.fillRect(backgroundPos.x, backgroundPos.y, maxBackgroundWidth, this.parameters.size * 16 + this.graphs.size * (GRAPH_HEIGHT + 24) + 32);
     }
 
-    ctx.fillStyle = this.isCollapsed ? "#222" : "#444";
-    ctx.fillRect(position.x, position.y, this.isCollapsed ? 150 : maxBackgroundWidth, 24);
+    renderer.setFillStyle(this.isCollapsed ? "#222" : "#444");
+    renderer.fillRect(position.x, position.y, this.isCollapsed ? 150 : maxBackgroundWidth, 24);
     position.y += 24;
 
-    ctx.font = "1rem monospace";
-    ctx.fillStyle = "white";
-    ctx.fillText(this.name + (this.isCollapsed ? " +" : " -"), position.x + 4, position.y - 8);
+    renderer.setFont("1rem monospace");
+    renderer.setFillStyle("white");
+    renderer.fillText(this.name + (this.isCollapsed ? " +" : " -"), position.x + 4, position.y - 8);
 
     if (this.isCollapsed) return position;
 
-    ctx.font = "1rem monospace";
-    formattedParameters.forEach(parameter => ctx.fillText(parameter, position.x + 8, position.y += 16));
+    renderer.setFont("1rem monospace");
+    formattedParameters.forEach(parameter => renderer.fillText(parameter, position.x + 8, position.y += 16));
 
     if (this.parameters.size) position.y += 8;
 
-    this.subsections.forEach(section => position.y = section.render(ctx, new Vector2D(position.x + 8, position.y), lastClickPosition).y);
+    this.graphs.forEach((callback, name) => {
+      this.renderGraph(renderer, name, callback(), new Vector2D(position.x + 8, position.y));
+      position.y += GRAPH_HEIGHT + 24;
+    });
+
+    this.subsections.forEach(section => position.y = section.render(renderer, new Vector2D(position.x + 8, position.y), lastClickPosition).y);
 
     return position;
   }
 
+  /**
+   * Renders a line graph of a list of values, scaled to the largest value.
+   *
+   * @param renderer the render backend to draw with
+   * @param name the title of the graph
+   * @param values the values to graph, oldest value first
+   * @param position the top left position of the graph
+   */
+  private renderGraph(renderer: RenderBackendable, name: string, values: Array<number>, position: Vector2D): void {
+    const maxValue: number = Math.max(...values, Number.EPSILON);
+    const latestValue: number = values[values.length - 1] ?? 0;
+
+    renderer.setFillStyle("white");
+    renderer.fillText(`${name}: ${latestValue.toFixed(2)} (max ${maxValue.toFixed(2)})`, position.x, position.y + 16);
+
+    const graphPosition: Vector2D = new Vector2D(position.x, position.y + 20);
+
+    renderer.setStrokeStyle("#666");
+    renderer.setLineWidth(1);
+    renderer.strokeRect(graphPosition.x, graphPosition.y, GRAPH_WIDTH, GRAPH_HEIGHT);
+
+    if (values.length < 2) return;
+
+    const step: number = GRAPH_WIDTH / (values.length - 1);
+
+    renderer.setStrokeStyle("lime");
+    renderer.beginPath();
+    values.forEach((value, index) => {
+      const x: number = graphPosition.x + index * step;
+      const y: number = graphPosition.y + GRAPH_HEIGHT - value / maxValue * GRAPH_HEIGHT;
+
+      if (index === 0) renderer.moveTo(x, y);
+      else renderer.lineTo(x, y);
+    });
+    renderer.stroke();
+  }
+
   /**
    * Gets a subsection by its title
    *
@@ -198,12 +278,12 @@ export default class ParameterGUI implements GUIable {
   /**
    * Renders the parameter GUI overlay if it is enabled.
    *
-   * @param ctx the canavs context to render to
+   * @param renderer the render backend to draw with
    */
-  render(ctx: CanvasRenderingContext2D): void {
+  render(renderer: RenderBackendable): void {
     if (!this.isEnabled) return;
 
-    this.baseSection.render(ctx, new Vector2D(this.position.x, this.position.y), this.lastClickPosition);
+    this.baseSection.render(renderer, new Vector2D(this.position.x, this.position.y), this.lastClickPosition);
     this.lastClickPosition = new Vector2D(0, 0);
   }
 }
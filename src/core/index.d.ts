@@ -1,20 +1,51 @@
 interface Engineable {
   readonly canvasElement: HTMLCanvasElement;
-  readonly ctx: CanvasRenderingContext2D;
+  readonly renderer: RenderBackendable;
   readonly parameterGUI: GUIable;
   readonly eventHandler: EventHandlerable;
   readonly textureHandler: TextureHandlerable;
+  readonly profiler: Profilable;
+  readonly sceneManager: SceneManagerable;
+  readonly viewport: Viewportable;
+  readonly tweens: TweenManagerable;
+  readonly scheduler: Schedulable;
 
   scenes: Map<string, import("../elements/scene").default>;
 
-  preloadedActorCount: number;
+  loadingScreen: LoadingScreenable;
+
+  readonly clock: Clockable;
+  readonly isHeadless: boolean;
+  readonly tickRate: number;
+  readonly timestepMode: TimestepMode;
+
+  panicStrategy: PanicStrategy;
+
+  timeScale: number;
 
   isPaused: boolean;
   isStarted: boolean;
+  autoPause: AutoPauseMode;
+  isDestroyed: boolean;
 
   getScenesByName(name: string): Array<(import("../elements/scene").default)>;
+  getActorsByTag(tag: string): Array<Actorable>;
+  getActorsByName(name: string): Array<Actorable>;
+  reportPreloadError(element: Elementable, error: unknown): void;
+  addScene(scene: import("../elements/scene").default): void;
+  removeScene(scene: import("../elements/scene").default): boolean;
+  use(plugin: Pluginable): Engineable;
+  getPlugin(name: string): Pluginable | undefined;
 
   start(): Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  destroy(): void;
+  step(ticks?: number): void;
+  advance(milliseconds: number): void;
+  captureFrame(options?: CaptureOptions): Promise<Blob>;
+  captureBitmap(options?: Omit<CaptureOptions, "type" | "quality">): Promise<ImageBitmap>;
 
   registerEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void;
   unregisterEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void;
@@ -23,6 +54,13 @@ interface Engineable {
   get engineRuntimeMilliseconds(): number;
   get engineStartTimestamp(): number;
   get FPS(): number;
+  get tickCount(): number;
+  get preloadProgress(): PreloadProgress;
+}
+
+interface Clockable {
+  now(): number;
+  advance?(milliseconds: number): void;
 }
 
 interface Camerable {
@@ -46,7 +84,7 @@ interface GUIable {
 
   isEnabled: boolean;
 
-  render(ctx: CanvasRenderingContext2D): void;
+  render(renderer: RenderBackendable): void;
 }
 
 interface GUISectionable {
@@ -54,18 +92,200 @@ interface GUISectionable {
   isCollapsed: boolean;
   subsections: Array<GUISectionable>;
   parameters: Map<string, () => Object>;
+  graphs: Map<string, () => Array<number>>;
 
   addParameter: (name: string, callback: () => Object) => GUISectionable;
   removeParameter: (name: string) => boolean;
+  addGraph: (name: string, callback: () => Array<number>) => GUISectionable;
+  removeGraph: (name: string) => boolean;
   addSubsection: (name: string, isCollapsed: boolean) => GUISectionable;
   removeSubsection: (name: string) => boolean;
 
   clear: () => void;
-  render: (ctx: CanvasRenderingContext2D, position: Vectorable, lastClickPosition: Vectorable) => Vectorable;
+  render: (renderer: RenderBackendable, position: Vectorable, lastClickPosition: Vectorable) => Vectorable;
 
   getSubsectionByTitle: (name: string) => GUISectionable;
 }
 
+interface Profilable {
+  isEnabled: boolean;
+  readonly historySize: number;
+
+  measure<T>(label: string, callback: () => T): T;
+  endFrame(frameTime: number): void;
+  removeLabel(label: string): boolean;
+  reset(): void;
+
+  getHistory(label: string): Array<number>;
+  getAverage(label: string): number;
+  getMax(label: string): number;
+  getSamples(): Array<ProfilerSample>;
+
+  get labels(): Array<string>;
+  get frameTimeHistory(): Array<number>;
+  get FPSHistory(): Array<number>;
+  get averageFrameTime(): number;
+  get averageFPS(): number;
+}
+
+type ProfilerSample = {
+  label: string;
+  average: number;
+  max: number;
+  latest: number;
+};
+
+type ProfilerOptions = Partial<{
+  isEnabled: boolean;
+  historySize: number;
+  now: () => number;
+}>;
+
+interface Pluginable {
+  readonly name: string;
+
+  install?(engine: Engineable): void;
+  onStart?(engine: Engineable): void;
+  beforeTick?(engine: Engineable, deltaTime: number): void;
+  afterTick?(engine: Engineable, deltaTime: number): void;
+  beforeRender?(engine: Engineable, renderer: RenderBackendable, interpolationFactor: number): void;
+  afterRender?(engine: Engineable, renderer: RenderBackendable, interpolationFactor: number): void;
+  onSceneAdd?(engine: Engineable, scene: Sceneable): void;
+  onSceneRemove?(engine: Engineable, scene: Sceneable): void;
+  onDestroy?(engine: Engineable): void;
+  createGUISection?(section: GUISectionable, engine: Engineable): void;
+}
+
+type PluginHook = Exclude<keyof Pluginable, "name" | "install" | "createGUISection">;
+
+interface FrameRecordable {
+  readonly engine: Engineable;
+
+  ticksPerFrame: number;
+  frames: Array<Blob>;
+
+  record(frameCount: number): Promise<Array<Blob>>;
+  clear(): void;
+  toFiles(name?: string): Array<File>;
+
+  get duration(): number;
+}
+
+interface Viewportable {
+  readonly resolution: Vectorable | null;
+
+  scaleMode: ScaleMode;
+  letterboxColor: string;
+
+  resize(width: number, height: number, pixelRatio: number): void;
+  toLogical(x: number, y: number): Vectorable;
+  apply(renderer: RenderBackendable): void;
+
+  get size(): Vectorable;
+  get physicalSize(): Vectorable;
+  get scale(): Vectorable;
+  get offset(): Vectorable;
+}
+
+interface SceneManagerable {
+  readonly engine: Engineable;
+
+  isInUse: boolean;
+
+  push(scene: Sceneable, options?: PushSceneOptions): Promise<void>;
+  pop(options?: SceneChangeOptions): Promise<Sceneable | undefined>;
+  replace(scene: Sceneable, options?: PushSceneOptions): Promise<Sceneable | undefined>;
+  removeFromStack(scene: Sceneable): boolean;
+  update(deltaTime: number): void;
+  skipTransition(): void;
+  render(renderer: RenderBackendable, canvasSize: Vectorable, renderScenes: (scenes: Array<Sceneable>) => void): void;
+
+  get stack(): Array<Sceneable>;
+  get top(): Sceneable | undefined;
+  get renderedScenes(): Array<Sceneable>;
+  get tickedScenes(): Array<Sceneable>;
+  get isTransitioning(): boolean;
+  get transitionProgress(): number;
+}
+
+interface Transitionable {
+  readonly duration: number;
+  readonly easing?: EasingFunction;
+
+  render(renderer: RenderBackendable, progress: number, renderFrom: () => void, renderTo: () => void, canvasSize: Vectorable): void;
+}
+
+interface Tweenable {
+  readonly finished: Promise<boolean>;
+
+  update(deltaTime: number): boolean;
+  cancel(): void;
+  isTargeting(target: object): boolean;
+
+  get isFinished(): boolean;
+  get unusedTime(): number;
+}
+
+interface TweenManagerable {
+  add<Type extends Tweenable>(tween: Type): Type;
+  to<Target extends object>(target: Target, values: TweenValues<Target>, options?: TweenOptions): Tweenable;
+  sequence(tweens: Array<Tweenable>, options?: TweenGroupOptions): Tweenable;
+  parallel(tweens: Array<Tweenable>, options?: TweenGroupOptions): Tweenable;
+  cancelTweensOf(target: object): number;
+  cancelAll(): void;
+  update(deltaTime: number): void;
+
+  get count(): number;
+}
+
+interface Timerable {
+  cancel(): void;
+
+  get isActive(): boolean;
+}
+
+interface Coroutinable extends Timerable {
+  readonly finished: Promise<boolean>;
+}
+
+type CoroutineInstruction =
+  | { type: "wait", milliseconds: number }
+  | { type: "until", predicate: () => boolean };
+
+type CoroutineGenerator = Generator<CoroutineInstruction, void, unknown>;
+
+interface Schedulable {
+  after(delay: number, callback: () => void): Timerable;
+  every(interval: number, callback: () => void): Timerable;
+  start(generator: CoroutineGenerator): Coroutinable;
+  wait(milliseconds: number): CoroutineInstruction;
+  nextTick(): CoroutineInstruction;
+  until(predicate: () => boolean): CoroutineInstruction;
+  cancelAll(): void;
+  update(deltaTime: number): void;
+
+  get time(): number;
+  get timerCount(): number;
+}
+
+interface LoadingScreenable {
+  preload?(engine: Engineable): Promise<any>;
+  render(renderer: RenderBackendable, progress: PreloadProgress, canvasSize: Vectorable): void;
+}
+
+type PreloadProgress = {
+  loaded: number;
+  total: number;
+  progress: number;
+};
+
+type LoadingScreenOptions = Partial<{
+  background: string;
+  foreground: string;
+  text: string;
+  logoPath: string;
+}>;
+
 type CameraOptions = Partial<{
   position?: Vectorable;
   rotation?: Vectorable;
@@ -74,4 +294,80 @@ type CameraOptions = Partial<{
 
 type EngineOptions = Partial<{
   isDebugEnabled?: boolean;
+  isHeadless?: boolean;
+  clock?: Clockable;
+  tickRate?: number;
+  timestepMode?: TimestepMode;
+  maxUpdatesPerFrame?: number;
+  panicStrategy?: PanicStrategy;
+  timeScale?: number;
+  renderBackend?: RenderBackendable;
+  isProfilerEnabled?: boolean;
+  profilerHistorySize?: number;
+  loadingScreen?: LoadingScreenable;
+  minimumLoadingDuration?: number;
+  autoPause?: AutoPauseMode;
+  isHeldInputClearedOnBlur?: boolean;
+} & ViewportOptions>;
+
+type CaptureOptions = Partial<{
+  type: string;
+  quality: number;
+  isGUIIncluded: boolean;
+}>;
+
+interface BlobConvertible {
+  convertToBlob(options?: Partial<{ type: string, quality: number }>): Promise<Blob>;
+}
+
+type FrameRecorderOptions = Partial<{
+  ticksPerFrame: number;
+} & CaptureOptions>;
+
+type ViewportOptions = Partial<{
+  resolution: Vectorable;
+  scaleMode: ScaleMode;
+  letterboxColor: string;
+}>;
+
+type ScaleMode = "fit" | "fill" | "stretch" | "integer";
+
+type TimestepMode = "fixed" | "semi-fixed" | "variable";
+
+type PanicStrategy = "discard" | "clamp" | "carry";
+
+type AutoPauseMode = "hidden" | "blur" | "never";
+
+type TransitionDirection = "left" | "right" | "up" | "down";
+
+type TransitionOptions = Partial<{
+  duration: number;
+  easing: EasingFunction;
+}>;
+
+type TweenValues<Target> = Partial<{
+  [Key in keyof Target as Target[Key] extends number | Vectorable ? Key : never]: Target[Key] extends number ? number : Vectorable;
+}>;
+
+type TweenOptions = Partial<{
+  duration: number;
+  delay: number;
+  easing: EasingFunction;
+  repeat: number;
+  yoyo: boolean;
+  onUpdate: (progress: number) => void;
+  onComplete: () => void;
+}>;
+
+type TweenGroupOptions = Partial<{
+  onComplete: () => void;
+}>;
+
+type SceneChangeOptions = Partial<{
+  transition: Transitionable;
+}>;
+
+type PushSceneOptions = Partial<SceneChangeOptions & {
+  isOverlay: boolean;
+  isUnderlyingTickEnabled: boolean;
 }>;
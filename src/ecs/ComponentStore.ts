@@ -0,0 +1,203 @@
+/**
+ * Marks the owner of an entry removed while the store is locked.
+ */
+const REMOVED_ENTITY: Entity = -1;
+
+/**
+ * Packed storage for one type of entity component. Component data is kept in
+ * a dense array alongside the entity that owns each entry, with a sparse
+ * lookup from entity to index, so iteration touches no gaps and removal is a
+ * constant time swap with the last entry.
+ *
+ * While the store is locked for iteration, entries keep their index: removed
+ * entries are marked and compacted once the store is unlocked, and new
+ * entries are added at the end.
+ */
+export default class ComponentStore<Data> implements ComponentStorable<Data> {
+  readonly name: string;
+
+  /**
+   * Component data, packed with no gaps.
+   *
+   * @private
+   * @default []
+   */
+  private dense: Array<Data> = [];
+
+  /**
+   * The entity that owns each entry in the dense array.
+   *
+   * @private
+   * @default []
+   */
+  private owners: Array<Entity> = [];
+
+  /**
+   * The dense index of each entity's component. Entries for entities without
+   * the component may be stale, so lookups are checked against the owners.
+   *
+   * @private
+   * @default []
+   */
+  private sparse: Array<number> = [];
+
+  /**
+   * The number of times the store has been locked and not yet unlocked.
+   *
+   * @private
+   * @default 0
+   */
+  private lockCount: number = 0;
+
+  /**
+   * The number of entries removed while the store was locked.
+   *
+   * @private
+   * @default 0
+   */
+  private removedCount: number = 0;
+
+  /**
+   * Creates a new ComponentStore instance.
+   *
+   * @param {string} name name of component
+   */
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  /**
+   * Sets the component data of an entity, replacing any existing data.
+   *
+   * @param {Entity} entity the entity to set the component of
+   * @param {Data} data the component data
+   */
+  set = (entity: Entity, data: Data): void => {
+    if (this.has(entity)) {
+      this.dense[this.sparse[entity]] = data;
+      return;
+    }
+
+    this.sparse[entity] = this.dense.length;
+    this.dense.push(data);
+    this.owners.push(entity);
+  };
+
+  /**
+   * Gets the component data of an entity.
+   *
+   * @param {Entity} entity the entity to get the component of
+   *
+   * @returns {Data | undefined} the component data, or undefined if the
+   * entity does not have the component
+   */
+  get = (entity: Entity): Data | undefined => this.has(entity) ? this.dense[this.sparse[entity]] : undefined;
+
+  /**
+   * Checks whether or not an entity has the component.
+   *
+   * @param {Entity} entity the entity to check
+   *
+   * @returns {boolean} true if the entity has the component
+   */
+  has = (entity: Entity): boolean => {
+    const index: number | undefined = this.sparse[entity];
+
+    return index !== undefined && index < this.owners.length && this.owners[index] === entity;
+  };
+
+  /**
+   * Removes the component from an entity. The last entry is moved into the
+   * removed entry's place, or the entry is marked as removed if the store is
+   * locked.
+   *
+   * @param {Entity} entity the entity to remove the component from
+   *
+   * @returns {boolean} true if the entity had the component
+   */
+  remove = (entity: Entity): boolean => {
+    if (!this.has(entity)) return false;
+
+    const index: number = this.sparse[entity];
+
+    if (this.lockCount > 0) {
+      this.owners[index] = REMOVED_ENTITY;
+      this.removedCount++;
+      return true;
+    }
+
+    const lastIndex: number = this.dense.length - 1;
+
+    this.dense[index] = this.dense[lastIndex];
+    this.owners[index] = this.owners[lastIndex];
+    this.sparse[this.owners[index]] = index;
+
+    this.dense.pop();
+    this.owners.pop();
+
+    return true;
+  };
+
+  /**
+   * Locks the store, so entries keep their index while it is iterated. Locks
+   * can be nested.
+   */
+  lock = (): void => {
+    this.lockCount++;
+  };
+
+  /**
+   * Unlocks the store, compacting entries removed while it was locked once
+   * every lock has been released.
+   */
+  unlock = (): void => {
+    this.lockCount = Math.max(this.lockCount - 1, 0);
+    if (this.lockCount === 0 && this.removedCount > 0) this.compact();
+  };
+
+  /**
+   * Moves every entry that was not removed to the front of the dense arrays,
+   * keeping their order.
+   *
+   * @private
+   */
+  private compact = (): void => {
+    let length: number = 0;
+
+    for (let index = 0; index < this.owners.length; index++) {
+      const owner: Entity = this.owners[index];
+      if (owner === REMOVED_ENTITY) continue;
+
+      this.dense[length] = this.dense[index];
+      this.owners[length] = owner;
+      this.sparse[owner] = length;
+      length++;
+    }
+
+    this.dense.length = length;
+    this.owners.length = length;
+    this.removedCount = 0;
+  };
+
+  /**
+   * The number of entities with the component.
+   */
+  get size(): number {
+    return this.dense.length - this.removedCount;
+  }
+
+  /**
+   * The entities with the component, in storage order. While the store is
+   * locked, removed entries are marked with an entity of -1.
+   */
+  get entities(): ReadonlyArray<Entity> {
+    return this.owners;
+  }
+
+  /**
+   * The component data, in the same order as the entities.
+   */
+  get values(): ReadonlyArray<Data> {
+    return this.dense;
+  }
+}
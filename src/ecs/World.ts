@@ -0,0 +1,357 @@
+import ComponentStore from "./ComponentStore";
+import { DEFAULT_LAYER } from "@/elements/Layer";
+
+/**
+ * An entity-component-system world for large numbers of lightweight entities.
+ * Entities are plain numbers, component data lives in packed stores, and
+ * systems run over every entity matching a query. A world attached to a scene
+ * is ticked with the scene's actors, and its render systems draw on the
+ * scene's layers with the same camera.
+ */
+export default class World implements Worldable {
+  /**
+   * @private
+   */
+  private _entityCount: number = 0;
+
+  /**
+   * The component stores defined in the world.
+   *
+   * @private
+   * @default []
+   */
+  private stores: Array<ComponentStorable<any>> = [];
+
+  /**
+   * Systems in the order they were added.
+   *
+   * @private
+   * @default []
+   */
+  private systems: Array<System> = [];
+
+  /**
+   * Whether or not each entity ID is live.
+   *
+   * @private
+   * @default []
+   */
+  private alive: Array<boolean> = [];
+
+  /**
+   * IDs of destroyed entities, reused by new entities.
+   *
+   * @private
+   * @default []
+   */
+  private freeEntities: Array<Entity> = [];
+
+  /**
+   * Render systems grouped by the name of the layer they draw on, in the
+   * order they were added, or null if they need to be regrouped.
+   *
+   * @private
+   * @default null
+   */
+  private renderSystems: Map<string, Array<RenderSystem>> | null = null;
+
+  /**
+   * Argument lists reused by each(), one per level of nested iteration.
+   *
+   * @private
+   * @default []
+   */
+  private eachArguments: Array<Array<unknown>> = [];
+
+  /**
+   * The number of each() calls currently iterating.
+   *
+   * @private
+   * @default 0
+   */
+  private eachDepth: number = 0;
+
+  /**
+   * Defines a new type of component. The returned store identifies the
+   * component in queries and holds its data.
+   *
+   * @param {string} name name of component
+   *
+   * @returns {ComponentStorable<Data>} the component's store
+   */
+  defineComponent = <Data>(name: string): ComponentStorable<Data> => {
+    const store: ComponentStorable<Data> = new ComponentStore<Data>(name);
+    this.stores.push(store);
+
+    return store;
+  };
+
+  /**
+   * Creates a new entity with no components. IDs of destroyed entities are
+   * reused.
+   *
+   * @returns {Entity} the new entity
+   */
+  createEntity = (): Entity => {
+    const entity: Entity = this.freeEntities.pop() ?? this.alive.length;
+
+    this.alive[entity] = true;
+    this._entityCount++;
+
+    return entity;
+  };
+
+  /**
+   * Destroys an entity and removes all of its components.
+   *
+   * @param {Entity} entity the entity to destroy
+   *
+   * @returns {boolean} true if the entity was live
+   */
+  destroyEntity = (entity: Entity): boolean => {
+    if (!this.isAlive(entity)) return false;
+
+    this.stores.forEach(store => store.remove(entity));
+
+    this.alive[entity] = false;
+    this.freeEntities.push(entity);
+    this._entityCount--;
+
+    return true;
+  };
+
+  /**
+   * Checks whether or not an entity is live.
+   *
+   * @param {Entity} entity the entity to check
+   *
+   * @returns {boolean} true if the entity has been created and not destroyed
+   */
+  isAlive = (entity: Entity): boolean => this.alive[entity] === true;
+
+  /**
+   * Adds a component to an entity, replacing any existing data.
+   *
+   * @param {Entity} entity the entity to add the component to
+   * @param {ComponentStorable<Data>} component the component's store
+   * @param {Data} data the component data
+   *
+   * @throws {Error} if the entity is not live
+   */
+  addComponent = <Data>(entity: Entity, component: ComponentStorable<Data>, data: Data): void => {
+    if (!this.isAlive(entity)) throw new Error(`Entity ${entity} does not exist.`);
+
+    component.set(entity, data);
+  };
+
+  /**
+   * Gets the data of an entity's component.
+   *
+   * @param {Entity} entity the entity to get the component of
+   * @param {ComponentStorable<Data>} component the component's store
+   *
+   * @returns {Data | undefined} the component data, or undefined if the
+   * entity does not have the component
+   */
+  getComponent = <Data>(entity: Entity, component: ComponentStorable<Data>): Data | undefined => component.get(entity);
+
+  /**
+   * Removes a component from an entity.
+   *
+   * @param {Entity} entity the entity to remove the component from
+   * @param {ComponentStorable<any>} component the component's store
+   *
+   * @returns {boolean} true if the entity had the component
+   */
+  removeComponent = (entity: Entity, component: ComponentStorable<any>): boolean => component.remove(entity);
+
+  /**
+   * Gets every entity that has all of a set of components.
+   *
+   * @param {Array<ComponentStorable<any>>} components the components to match
+   *
+   * @returns {Array<Entity>} the matching entities
+   */
+  query = (...components: Array<ComponentStorable<any>>): Array<Entity> => {
+    if (components.length === 0) return [];
+
+    const smallest: ComponentStorable<any> = components.reduce((a, b) => b.size < a.size ? b : a);
+
+    return smallest.entities.filter(entity => components.every(component => component.has(entity)));
+  };
+
+  /**
+   * Calls a function for every entity that has all of a set of components,
+   * with the data of each component. The smallest store is iterated in place
+   * and locked while iterating. Entities and components may be added or
+   * removed while iterating; entities that lose a matching component before
+   * they are reached are skipped, and entities that gain one are not visited.
+   *
+   * @param {Components} components the components to match
+   * @param callback the function to call for each matching entity
+   */
+  each = <Components extends Array<ComponentStorable<any>>>(
+    components: [...Components],
+    callback: (entity: Entity, ...data: ComponentData<Components>) => void,
+  ): void => {
+    if (components.length === 0) return;
+
+    let smallestIndex: number = 0;
+    for (let index = 1; index < components.length; index++) {
+      if (components[index].size < components[smallestIndex].size) smallestIndex = index;
+    }
+
+    const smallest: ComponentStorable<any> = components[smallestIndex];
+    const entities: ReadonlyArray<Entity> = smallest.entities;
+    const values: ReadonlyArray<unknown> = smallest.values;
+    const count: number = entities.length;
+
+    const args: Array<unknown> = this.eachArguments[this.eachDepth] ??= [];
+    args.length = components.length + 1;
+
+    this.eachDepth++;
+    smallest.lock();
+
+    try {
+      for (let index = 0; index < count; index++) {
+        const entity: Entity = entities[index];
+        if (!this.fillEachArguments(args, entity, components, smallestIndex)) continue;
+
+        args[smallestIndex + 1] = values[index];
+        Reflect.apply(callback, undefined, args);
+      }
+    } finally {
+      smallest.unlock();
+      this.eachDepth--;
+    }
+  };
+
+  /**
+   * Sets the arguments each() passes for an entity, except the data of the
+   * store being iterated.
+   *
+   * @private
+   *
+   * @param {Array<unknown>} args the arguments to fill
+   * @param {Entity} entity the entity being visited
+   * @param {Array<ComponentStorable<any>>} components the components to match
+   * @param {number} skippedIndex the index of the store being iterated
+   *
+   * @returns {boolean} true if the entity has every component
+   */
+  private fillEachArguments = (args: Array<unknown>, entity: Entity, components: Array<ComponentStorable<any>>, skippedIndex: number): boolean => {
+    if (!components[skippedIndex].has(entity)) return false;
+
+    args[0] = entity;
+
+    for (let index = 0; index < components.length; index++) {
+      if (index === skippedIndex) continue;
+      if (!components[index].has(entity)) return false;
+
+      args[index + 1] = components[index].get(entity);
+    }
+
+    return true;
+  };
+
+  /**
+   * Adds a system to the world. Systems in each phase run in the order they
+   * were added.
+   *
+   * @param {System} system the system to add
+   */
+  addSystem = (system: System): void => {
+    this.systems.push(system);
+    this.renderSystems = null;
+  };
+
+  /**
+   * Removes a system from the world.
+   *
+   * @param {System} system the system to remove
+   *
+   * @returns {boolean} true if the system was in the world
+   */
+  removeSystem = (system: System): boolean => {
+    const index: number = this.systems.indexOf(system);
+    if (index === -1) return false;
+
+    this.systems.splice(index, 1);
+    this.renderSystems = null;
+
+    return true;
+  };
+
+  /**
+   * Runs the tick systems.
+   *
+   * @param {number} timestep the duration of the tick in milliseconds
+   */
+  tick = (timestep: number): void => {
+    this.systems.forEach(system => system.phase === "tick" && system.run(this, timestep));
+  };
+
+  /**
+   * Runs the render systems that draw on one of a scene's layers, after the
+   * layer's actors. Systems on a layer the scene does not have draw on the
+   * default layer. The renderer is offset by the layer's camera offset, so
+   * systems draw in world units like actors do.
+   *
+   * @param {RenderBackendable} renderer the render backend to draw with
+   * @param {Sceneable} scene the scene the world is attached to
+   * @param {Layerable} layer the layer being drawn
+   * @param {number} interpolationFactor interpolated time between the
+   * current and next tick
+   */
+  render = (renderer: RenderBackendable, scene: Sceneable, layer: Layerable, interpolationFactor: number): void => {
+    let isOffset: boolean = false;
+
+    this.getRenderSystems().forEach((systems, name) => {
+      if (name !== layer.name && (layer.name !== DEFAULT_LAYER || scene.layers.has(name))) return;
+
+      if (!isOffset) {
+        const cameraOffset: Vectorable = layer.getCameraOffset(scene.camera.position);
+
+        renderer.save();
+        renderer.translate(-cameraOffset.x, -cameraOffset.y);
+        isOffset = true;
+      }
+
+      systems.forEach(system => system.run(this, renderer, interpolationFactor));
+    });
+
+    if (isOffset) renderer.restore();
+  };
+
+  /**
+   * Gets the render systems grouped by the name of the layer they draw on,
+   * regrouping them if systems were added or removed.
+   *
+   * @private
+   *
+   * @returns {Map<string, Array<RenderSystem>>} the render systems of each
+   * layer name
+   */
+  private getRenderSystems = (): Map<string, Array<RenderSystem>> => {
+    if (this.renderSystems) return this.renderSystems;
+
+    this.renderSystems = new Map();
+
+    this.systems.forEach(system => {
+      if (system.phase !== "render") return;
+
+      const name: string = system.layer ?? DEFAULT_LAYER;
+      if (!this.renderSystems!.has(name)) this.renderSystems!.set(name, []);
+      this.renderSystems!.get(name)!.push(system);
+    });
+
+    return this.renderSystems;
+  };
+
+  /**
+   * The number of live entities.
+   */
+  get entityCount(): number {
+    return this._entityCount;
+  }
+}
@@ -0,0 +1,51 @@
+type Entity = number;
+
+interface ComponentStorable<Data> {
+  readonly name: string;
+
+  set(entity: Entity, data: Data): void;
+  get(entity: Entity): Data | undefined;
+  has(entity: Entity): boolean;
+  remove(entity: Entity): boolean;
+  lock(): void;
+  unlock(): void;
+
+  get size(): number;
+  get entities(): ReadonlyArray<Entity>;
+  get values(): ReadonlyArray<Data>;
+}
+
+type ComponentData<Components extends Array<ComponentStorable<any>>> = {
+  [Index in keyof Components]: Components[Index] extends ComponentStorable<infer Data> ? Data : never;
+};
+
+interface Worldable {
+  get entityCount(): number;
+
+  defineComponent<Data>(name: string): ComponentStorable<Data>;
+  createEntity(): Entity;
+  destroyEntity(entity: Entity): boolean;
+  isAlive(entity: Entity): boolean;
+  addComponent<Data>(entity: Entity, component: ComponentStorable<Data>, data: Data): void;
+  getComponent<Data>(entity: Entity, component: ComponentStorable<Data>): Data | undefined;
+  removeComponent(entity: Entity, component: ComponentStorable<any>): boolean;
+  query(...components: Array<ComponentStorable<any>>): Array<Entity>;
+  each<Components extends Array<ComponentStorable<any>>>(components: [...Components], callback: (entity: Entity, ...data: ComponentData<Components>) => void): void;
+  addSystem(system: System): void;
+  removeSystem(system: System): boolean;
+  tick(timestep: number): void;
+  render(renderer: RenderBackendable, scene: Sceneable, layer: Layerable, interpolationFactor: number): void;
+}
+
+type TickSystem = {
+  phase: "tick";
+  run: (world: Worldable, timestep: number) => void;
+};
+
+type RenderSystem = {
+  phase: "render";
+  layer?: string;
+  run: (world: Worldable, renderer: RenderBackendable, interpolationFactor: number) => void;
+};
+
+type System = TickSystem | RenderSystem;
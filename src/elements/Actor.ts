@@ -1,5 +1,6 @@
 import Vector2D from "@/math/Vector2D";
 import Element from "./Element";
+import { DEFAULT_LAYER } from "./Layer";
 
 /**
  * An actor that can be added to the engine and manipulated.
@@ -15,16 +16,90 @@ export default class Actor extends Element {
    */
   textureID: string = "";
 
+  /**
+   * The name of the scene layer the actor is drawn on. Actors attached to
+   * another actor are drawn with their root actor instead.
+   *
+   * @default "default"
+   */
+  layer: string;
+
+  /**
+   * The order the actor is drawn in within its layer. Actors with a higher
+   * z-index are drawn on top.
+   *
+   * @default 0
+   */
+  zIndex: number;
+
   isGravityEnabled: boolean;
   isCollisionEnabled: boolean;
+
+  /**
+   * A multiplier applied to the scene's gravity for this actor.
+   *
+   * @default 1
+   */
+  gravityScale: number;
+
   isTextureEnabled: boolean;
 
+  /**
+   * Whether or not the texture is mirrored across the vertical axis through
+   * the pivot, e.g. to face a sprite left instead of right.
+   *
+   * @default false
+   */
+  isFlippedHorizontally: boolean;
+
+  /**
+   * Whether or not the texture is mirrored across the horizontal axis
+   * through the pivot.
+   *
+   * @default false
+   */
+  isFlippedVertically: boolean;
+
+  /**
+   * The prefab the actor was spawned from, or null if the actor was created
+   * directly. Spawned actors return to their prefab's pool when despawned.
+   *
+   * @default null
+   */
+  prefab: Prefab<Actorable> | null = null;
+
+  /**
+   * The actor's tags, used to find it in scene queries and groups.
+   *
+   * @private
+   */
+  private _tags: Set<string>;
+
   private _textureFrame: number = 0;
 
   private renderPosition: Vector2D = new Vector2D();
 
   private _textures: { [key: string]: Texture } = {};
 
+  /**
+   * The IDs of textures whose bitmaps were handed over to the actor, and are
+   * closed when it is disposed.
+   *
+   * @private
+   */
+  private ownedTextureIDs: Set<string> = new Set();
+
+  /**
+   * Components attached to the actor, in the order they were added.
+   */
+  private _components: Array<Componentable> = [];
+
+  /**
+   * The actor's parameter GUI section, or null if the actor was created
+   * without one. Components add their own subsections to it.
+   */
+  private readonly guiSection: GUISectionable | null = null;
+
 
   /**
    * Current sum of delta time for a given animation frame.
@@ -51,39 +126,133 @@ export default class Actor extends Element {
 
     this.scene = scene;
 
-    this.scene.actors.set(this.ID, this);
+    this._tags = new Set(options.tags ?? []);
+    this.scene.addActor(this);
 
     this.isGravityEnabled = options.isGravityEnabled ?? true;
+    this.gravityScale = options.gravityScale ?? 1;
+    this.layer = options.layer ?? DEFAULT_LAYER;
+    this.zIndex = options.zIndex ?? 0;
     this.isCollisionEnabled = options.isCollisionEnabled ?? true;
     this.isTextureEnabled = options.isTextureEnabled ?? true;
+    this.isFlippedHorizontally = options.isFlippedHorizontally ?? false;
+    this.isFlippedVertically = options.isFlippedVertically ?? false;
 
     this.previousState = this.createLastState();
 
-    this.engine.parameterGUI.baseSection.getSubsectionByTitle(scene.name)
+    if (options.isGUIEnabled ?? true) this.guiSection = this.engine.parameterGUI.baseSection.getSubsectionByTitle(scene.name)
       .addSubsection(this.name, false)
       .addParameter("Position", () => this.position)
       .addParameter("Render Position", () => this.renderPosition)
       .addParameter("Velocity", () => this.velocity)
+      .addParameter("Rotation", () => this.rotation)
       .addParameter("Texture ID", () => this.textureID)
   }
 
-  override internalTick = (timestep: number): void => {
-    if (this.isGravityEnabled) {
-      this.velocity.add(this.scene.environment.gravity.divide(timestep));
+  override internalDispose = (): void => {
+    [...this._components].forEach(component => this.removeComponent(component));
+
+    if (this.guiSection) {
+      const sceneSection: GUISectionable | undefined = this.engine.parameterGUI.baseSection.subsections.find(section => section.name === this.scene.name);
+      const index: number = sceneSection?.subsections.indexOf(this.guiSection) ?? -1;
+
+      if (index !== -1) sceneSection!.subsections.splice(index, 1);
     }
 
+    this.releaseTextures();
+  };
+
+  /**
+   * Called every time the actor is spawned by its scene, whether it was newly
+   * created or reused from a pool.
+   *
+   * @param options the properties the actor was spawned with
+   */
+  onSpawn = (_options: SpawnOptions): void => { };
+
+  /**
+   * Called when the actor is despawned and returned to its pool.
+   */
+  onDespawn = (): void => { };
+
+  /**
+   * Called after the actor is reset for reuse. Use this to restore any state
+   * the actor adds on top of its options.
+   *
+   * @param options the properties the actor was reset with
+   */
+  onReset = (_options: ActorOptions): void => { };
+
+  /**
+   * Returns the actor to its prefab's pool, removing it from the scene until
+   * it is spawned again.
+   *
+   * @returns {boolean} true if the actor was spawned and had not already been
+   * despawned
+   */
+  despawn = (): boolean => this.scene.despawn(this);
+
+  override internalReset = (options: ActorOptions): void => {
+    this.isGravityEnabled = options.isGravityEnabled ?? true;
+    this.gravityScale = options.gravityScale ?? 1;
+    this.layer = options.layer ?? DEFAULT_LAYER;
+    this.zIndex = options.zIndex ?? 0;
+    this.isCollisionEnabled = options.isCollisionEnabled ?? true;
+    this.isTextureEnabled = options.isTextureEnabled ?? true;
+    this.isFlippedHorizontally = options.isFlippedHorizontally ?? false;
+    this.isFlippedVertically = options.isFlippedVertically ?? false;
+
+    const previousTags: Set<string> = this._tags;
+    this._tags = new Set(options.tags ?? []);
+    [...previousTags, ...this._tags].forEach(tag => this.scene.handleTagChange(this, tag));
+
+    this._textureFrame = 0;
+    this.textureDeltaSum = 0;
+    this.textureSourcePosition = new Vector2D();
+
+    this.onReset(options);
+  };
+
+  override internalTick = (timestep: number): void => {
     if (this.textureID && this.isTextureEnabled) this.updateTexture(timestep);
+
+    this._components.forEach(component => component.isEnabled && component.tick(timestep));
   };
 
-  override internalRender = (ctx: CanvasRenderingContext2D, interpolationFactor: number): void => {
-    this.renderPosition = this.position.add(this.position.subtract(this.scene.camera.position).multiply(interpolationFactor));
+  protected override getScheduler = (): Schedulable => this.scene.scheduler;
+
+  override getAcceleration = (): Vector2D => {
+    if (!this.isGravityEnabled) return this.acceleration;
+
+    return this.acceleration.add(this.scene.environment.gravity.multiply(this.gravityScale));
+  };
+
+  override internalRender = (renderer: RenderBackendable, interpolationFactor: number): void => {
+    const cameraPosition: Vector2D = this.rootLayer.getCameraOffset(this.scene.camera.position);
+    const position: Vector2D = this.renderState.position;
+
+    this.renderPosition = (this.parent ? this.parent.toWorld(position) : position).subtract(cameraPosition);
+
+    renderer.translate(-cameraPosition.x, -cameraPosition.y);
+    this.applyRenderTransform(renderer);
+
+    const opacity: number = this.opacityInHierarchy;
+    if (opacity < 1) renderer.setAlpha(renderer.getAlpha() * opacity);
 
-    ctx.save();
-    if (this.textureID) this.renderTexture(ctx);
+    renderer.save();
+    if (this.textureID) this.renderTexture(renderer);
 
-    ctx.restore();
+    renderer.restore();
 
-    if (this.isDebugEnabled) this.renderDebug(ctx);
+    this._components.forEach(component => {
+      if (!component.isEnabled) return;
+
+      renderer.save();
+      component.render(renderer, interpolationFactor);
+      renderer.restore();
+    });
+
+    if (this.isDebugEnabled) this.renderDebug(renderer);
   };
 
   /**
@@ -93,8 +262,9 @@ export default class Actor extends Element {
    * @param texture resolved texture bitmap
    * @param frameSize the size of a single frame in the texture (defaults to the size of the texture)
    * @param frameDuration the duration of a single frame in the texture (defaults to 200ms)
+   * @param isOwned whether or not the actor takes over the bitmap and closes it when disposed (defaults to false)
    */
-  addTexture = (textureID: string, texture: ImageBitmap, frameSize: Vector2D = new Vector2D(), frameDuration: number = 200): void => {
+  addTexture = (textureID: string, texture: ImageBitmap, frameSize: Vector2D = new Vector2D(), frameDuration: number = 200, isOwned: boolean = false): void => {
     const textureSize: Vector2D = new Vector2D(texture.width, texture.height);
 
     if (frameSize.x === 0 || frameSize.y === 0) {
@@ -108,6 +278,9 @@ export default class Actor extends Element {
       frameDuration,
       frameCount: new Vector2D(Math.floor(textureSize.x / frameSize.x), Math.floor(textureSize.y / frameSize.y)),
     };
+
+    if (isOwned) this.ownedTextureIDs.add(textureID);
+    else this.ownedTextureIDs.delete(textureID);
   }
 
   /**
@@ -121,10 +294,131 @@ export default class Actor extends Element {
     if (!this._textures[textureID]) return false;
 
     delete this._textures[textureID];
+    this.ownedTextureIDs.delete(textureID);
+
+    return true;
+  };
+
+  /**
+   * Switches to a texture and restarts its animation from the first frame.
+   *
+   * @param {string} textureID identifier of texture to switch to
+   */
+  playTexture = (textureID: string): void => {
+    this.textureID = textureID;
+    this._textureFrame = 0;
+    this.textureDeltaSum = 0;
+    this.textureSourcePosition = new Vector2D();
+  };
+
+  /**
+   * Adds a tag to the actor.
+   *
+   * @param {string} tag the tag to add
+   */
+  addTag = (tag: string): void => {
+    if (this._tags.has(tag)) return;
+
+    this._tags.add(tag);
+    this.scene.handleTagChange(this, tag);
+  };
+
+  /**
+   * Removes a tag from the actor.
+   *
+   * @param {string} tag the tag to remove
+   *
+   * @returns {boolean} true if the actor had the tag
+   */
+  removeTag = (tag: string): boolean => {
+    if (!this._tags.delete(tag)) return false;
 
+    this.scene.handleTagChange(this, tag);
     return true;
   };
 
+  /**
+   * Checks whether or not the actor has a tag.
+   *
+   * @param {string} tag the tag to check
+   *
+   * @returns {boolean} true if the actor has the tag
+   */
+  hasTag = (tag: string): boolean => this._tags.has(tag);
+
+  /**
+   * Attaches a component to the actor and adds its parameters to the actor's
+   * GUI section.
+   *
+   * @param {Type} component the component to attach
+   *
+   * @returns {Type} the attached component
+   *
+   * @throws {Error} if the component is already attached to an actor
+   */
+  addComponent = <Type extends Componentable>(component: Type): Type => {
+    component.attach(this);
+    this._components.push(component);
+
+    if (this.guiSection) component.addGUIParameters(this.guiSection.addSubsection(component.name, true));
+
+    return component;
+  };
+
+  /**
+   * Detaches a component from the actor.
+   *
+   * @param {Componentable} component the component to detach
+   *
+   * @returns {boolean} true if the component was attached to the actor
+   */
+  removeComponent = (component: Componentable): boolean => {
+    const index: number = this._components.indexOf(component);
+    if (index === -1) return false;
+
+    this._components.splice(index, 1);
+    this.guiSection?.removeSubsection(component.name);
+    component.detach();
+
+    return true;
+  };
+
+  /**
+   * Gets the first attached component of a type.
+   *
+   * @param {ComponentType<Type>} type the class of the component
+   *
+   * @returns {Type | undefined} the component, or undefined if none is
+   * attached
+   */
+  getComponent = <Type extends Componentable>(type: ComponentType<Type>): Type | undefined => {
+    return this._components.find((component): component is Type => component instanceof type);
+  };
+
+  /**
+   * Gets every attached component of a type.
+   *
+   * @param {ComponentType<Type>} type the class of the components
+   *
+   * @returns {Array<Type>} the components, in the order they were added
+   */
+  getComponents = <Type extends Componentable>(type: ComponentType<Type>): Array<Type> => {
+    return this._components.filter((component): component is Type => component instanceof type);
+  };
+
+  /**
+   * Removes every texture from the actor, closing the ones it owns.
+   *
+   * @private
+   */
+  private releaseTextures = (): void => {
+    this.ownedTextureIDs.forEach(textureID => this._textures[textureID].bitmap.close());
+
+    this.ownedTextureIDs.clear();
+    this._textures = {};
+    this.textureID = "";
+  };
+
   /**
    * Tracks delta time and increments the current animation frame if
    * delta time exceeds the duration of the current frame.
@@ -132,7 +426,8 @@ export default class Actor extends Element {
    * @param delta the current delta time for the update loop
    */
   private updateTexture = (timestep: number): void => {
-    let texture: Texture = this._textures[this.textureID];
+    const texture: Texture | undefined = this._textures[this.textureID];
+    if (texture === undefined) return;
 
     if ((this.textureDeltaSum += timestep) >= texture.frameDuration) {
       this.textureDeltaSum -= texture.frameDuration;
@@ -150,21 +445,30 @@ export default class Actor extends Element {
   /**
    * Renders the current texture to the canvas.
    *
-   * @param ctx the canvas context to render to
+   * @param renderer the render backend to draw with
    */
-  private renderTexture = (ctx: CanvasRenderingContext2D): void => {
-    const texture: Texture = this._textures[this.textureID];
+  private renderTexture = (renderer: RenderBackendable): void => {
+    const texture: Texture | undefined = this._textures[this.textureID];
+    if (texture === undefined) return;
 
     const renderSize = this.scale || texture.frameSize;
 
-    ctx.drawImage(
+    if (this.isFlippedHorizontally || this.isFlippedVertically) {
+      const pivotOffset: Vector2D = this.pivotOffset;
+
+      renderer.translate(pivotOffset.x, pivotOffset.y);
+      renderer.scale(this.isFlippedHorizontally ? -1 : 1, this.isFlippedVertically ? -1 : 1);
+      renderer.translate(-pivotOffset.x, -pivotOffset.y);
+    }
+
+    renderer.drawImage(
       texture.bitmap,
       this.textureSourcePosition.x,
       this.textureSourcePosition.y,
       texture.frameSize.x,
       texture.frameSize.y,
-      this.renderPosition.x,
-      this.renderPosition.y,
+      0,
+      0,
       renderSize.x,
       renderSize.y,
     );
@@ -173,17 +477,36 @@ export default class Actor extends Element {
   /**
    * Renders debug information
    *
-   * @param ctx canvas context to render debug information to
+   * @param renderer render backend to draw debug information with
    */
-  private renderDebug = (ctx: CanvasRenderingContext2D): void => {
-    ctx.save();
+  private renderDebug = (renderer: RenderBackendable): void => {
+    renderer.save();
 
-    ctx.strokeStyle = "red";
-    ctx.strokeRect(this.renderPosition.x, this.renderPosition.y, this.scale.x, this.scale.y);
+    renderer.setStrokeStyle("red");
+    renderer.strokeRect(0, 0, this.scale.x, this.scale.y);
 
-    ctx.restore();
+    renderer.restore();
   };
 
+  /**
+   * The scene layer of the actor's root actor, whose parallax the actor is
+   * drawn with.
+   */
+  private get rootLayer(): Layerable {
+    let root: Element = this;
+    while (root.parent) root = root.parent;
+
+    return this.scene.getLayer(root instanceof Actor ? root.layer : this.layer);
+  }
+
+  get tags(): ReadonlySet<string> {
+    return this._tags;
+  }
+
+  get components(): Array<Componentable> {
+    return this._components;
+  }
+
   get textures(): { [key: string]: Texture } {
     return this._textures;
   }
@@ -0,0 +1,130 @@
+/**
+ * A reusable piece of actor behaviour. Components are attached to an actor
+ * with `actor.addComponent()`, are ticked and rendered with it, and show up in
+ * the actor's parameter GUI section.
+ */
+export default abstract class Component implements Componentable {
+  /**
+   * The name of the component's parameter GUI section. Defaults to the name
+   * of the component's class.
+   */
+  readonly name: string;
+
+  /**
+   * Whether or not the component is ticked and rendered.
+   *
+   * @default true
+   */
+  isEnabled: boolean;
+
+  /**
+   * The actor the component is attached to, if any.
+   *
+   * @private
+   * @default null
+   */
+  private _actor: Actorable | null = null;
+
+  /**
+   * Creates a new Component instance.
+   *
+   * @param options optional properties to assign at creation
+   */
+  constructor(options: ComponentOptions = {}) {
+    this.name = options.name ?? this.constructor.name;
+    this.isEnabled = options.isEnabled ?? true;
+  }
+
+  /**
+   * Called after the component is attached to an actor.
+   *
+   * @param {Actorable} actor the actor the component was attached to
+   */
+  onAttach = (_actor: Actorable): void => { };
+
+  /**
+   * Called after the component is detached from an actor.
+   *
+   * @param {Actorable} actor the actor the component was detached from
+   */
+  onDetach = (_actor: Actorable): void => { };
+
+  /**
+   * Called every tick after the actor has moved.
+   *
+   * @param {number} timestep the duration of the tick in milliseconds
+   */
+  tick = (_timestep: number): void => { };
+
+  /**
+   * Called every frame after the actor's texture is drawn. The renderer is
+   * transformed into the actor's local space, so (0, 0) is the actor's top
+   * left corner.
+   *
+   * @param {RenderBackendable} renderer the render backend to draw with
+   * @param {number} interpolationFactor interpolated time between the
+   * current and next tick
+   */
+  render = (_renderer: RenderBackendable, _interpolationFactor: number): void => { };
+
+  /**
+   * Adds the component's parameters to its parameter GUI section. By default
+   * every public property of the component that is not a function is added.
+   *
+   * @param {GUISectionable} section the component's GUI section
+   */
+  addGUIParameters = (section: GUISectionable): void => {
+    section.addParameter("Enabled", () => this.isEnabled);
+
+    const properties: Record<string, Object> = <Record<string, Object>><unknown>this;
+
+    Object.keys(properties)
+      .filter(key => key !== "name" && key !== "isEnabled" && !key.startsWith("_") && typeof properties[key] !== "function")
+      .forEach(key => section.addParameter(key, () => properties[key]));
+  };
+
+  /**
+   * Attaches the component to an actor. Called by the actor when the
+   * component is added.
+   *
+   * @param {Actorable} actor the actor to attach to
+   *
+   * @throws {Error} if the component is already attached to an actor
+   */
+  attach = (actor: Actorable): void => {
+    if (this._actor) throw new Error(`Component ${this.name} is already attached to actor ${this._actor.name}.`);
+
+    this._actor = actor;
+    this.onAttach(actor);
+  };
+
+  /**
+   * Detaches the component from its actor. Called by the actor when the
+   * component is removed.
+   */
+  detach = (): void => {
+    const actor: Actorable | null = this._actor;
+    if (!actor) return;
+
+    this._actor = null;
+    this.onDetach(actor);
+  };
+
+  /**
+   * The actor the component is attached to.
+   *
+   * @throws {Error} if the component is not attached to an actor
+   */
+  get actor(): Actorable {
+    if (!this._actor) throw new Error(`Component ${this.name} is not attached to an actor.`);
+
+    return this._actor;
+  }
+
+  /**
+   * Whether or not the component is attached to an actor.
+   */
+  get isAttached(): boolean {
+    return this._actor !== null;
+  }
+}
@@ -7,6 +7,13 @@ type ElementState = {
   scale: Vector2D;
 };
 
+const MILLISECONDS_PER_SECOND: number = 1000;
+
+type RenderState = {
+  position: Vector2D;
+  rotation: number;
+};
+
 /**
  * The base class for all engine elements.
  */
@@ -15,24 +22,105 @@ export default class Element {
   readonly engine: Engineable;
 
   position: Vector2D;
-  velocity: Vector2D;
   scale: Vector2D;
 
+  /**
+   * The velocity of the element in units per second.
+   */
+  velocity: Vector2D;
+
+  /**
+   * The acceleration of the element in units per second squared.
+   *
+   * @default (0, 0)
+   */
+  acceleration: Vector2D;
+
   /**
    * The rotation of the element in radians.
    */
   rotation: number;
 
+  /**
+   * The angular velocity of the element in radians per second.
+   *
+   * @default 0
+   */
+  angularVelocity: number;
+
+  /**
+   * The rate at which velocity decays, per second. A drag of 1 reduces the
+   * velocity to about 37% after one second.
+   *
+   * @default 0
+   */
+  drag: number;
+
+  /**
+   * The rate at which angular velocity decays, per second.
+   *
+   * @default 0
+   */
+  angularDrag: number;
+
+  /**
+   * The speed the velocity is clamped to, in units per second.
+   *
+   * @default Infinity
+   */
+  maxSpeed: number;
+
+  /**
+   * The speed the angular velocity is clamped to, in radians per second.
+   *
+   * @default Infinity
+   */
+  maxAngularSpeed: number;
+
+  /**
+   * The method used to integrate velocity into position every tick.
+   * "euler" is semi-implicit Euler, and "verlet" is velocity Verlet, which
+   * stays exact under constant acceleration.
+   *
+   * @default "euler"
+   */
+  integrator: Integrator;
+
+  /**
+   * The point the element rotates about, relative to its size. (0, 0) is the
+   * top left corner and (1, 1) is the bottom right corner.
+   *
+   * @default (0.5, 0.5)
+   */
+  pivot: Vector2D;
+
+  /**
+   * The opacity of the element, from 0 to 1. Multiplied with the opacity of
+   * its ancestors.
+   *
+   * @default 1
+   */
+  opacity: number;
+
   isQueuedForDisposal: boolean = false;
   isRenderEnabled: boolean = true;
   isTickEnabled: boolean = true;
   isDebugEnabled: boolean;
-  protected isPreloaded: boolean = false;
+  isPreloaded: boolean = false;
+
+  /**
+   * Elements attached to this element, in tick and render order. Children
+   * are ticked and rendered after their parent, and their position and
+   * rotation are relative to it.
+   *
+   * @default []
+   */
+  children: Array<Element> = [];
 
   /**
    * Whether or not interpolation should be factored in when calculating the
-   * position of the actor. This is disabled for one frame when the actor is
-   * moved using SetPosition()
+   * position of the actor. This is disabled until the next tick when the
+   * actor is moved using SetPosition()
    */
   protected isInterpolationEnabled: boolean = true;
 
@@ -41,8 +129,49 @@ export default class Element {
  */
   protected previousState: ElementState;
 
+  /**
+   * The interpolated local position and rotation the element was last
+   * rendered with.
+   */
+  protected renderState: RenderState;
+
   private readonly internalID: string;
 
+  /**
+   * The element this element is attached to, if any.
+   *
+   * @private
+   * @default null
+   */
+  private _parent: Element | null = null;
+
+  /**
+   * Event callbacks registered through the element, unregistered when the
+   * element is disposed.
+   *
+   * @private
+   * @default []
+   */
+  private eventCallbacks: Array<{ type: keyof EngineEventHandlersEventMap, callback: (payload: any) => any }> = [];
+
+  /**
+   * Whether or not the element's event callbacks are unregistered until they
+   * are resumed.
+   *
+   * @private
+   * @default false
+   */
+  private isSuspended: boolean = false;
+
+  /**
+   * Timers scheduled through the element, cancelled when the element is
+   * disposed, reset or despawned.
+   *
+   * @private
+   * @default []
+   */
+  private timers: Array<Timerable> = [];
+
   /**
    * Creates a new Element instance.
    *
@@ -58,27 +187,69 @@ export default class Element {
 
     this.position = options.position ?? new Vector2D();
     this.velocity = options.velocity ?? new Vector2D();
+    this.acceleration = options.acceleration ?? new Vector2D();
     this.rotation = options.rotation ?? 0;
+    this.angularVelocity = options.angularVelocity ?? 0;
+    this.drag = options.drag ?? 0;
+    this.angularDrag = options.angularDrag ?? 0;
+    this.maxSpeed = options.maxSpeed ?? Infinity;
+    this.maxAngularSpeed = options.maxAngularSpeed ?? Infinity;
+    this.integrator = options.integrator ?? "euler";
     this.scale = options.scale ?? new Vector2D(1, 1);
+    this.pivot = options.pivot ?? new Vector2D(0.5, 0.5);
+    this.opacity = options.opacity ?? 1;
     this.isDebugEnabled = options.isDebugEnabled ?? false;
 
     this.previousState = this.createLastState();
+    this.renderState = { position: this.position, rotation: this.rotation };
   }
 
   registerEventCallback = <Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void => {
-    this.engine.eventHandler.registerEventCallback(type, callback);
+    if (!this.isSuspended) this.engine.eventHandler.registerEventCallback(type, callback);
+    this.eventCallbacks.push({ type, callback });
   };
 
   unregisterEventCallback = <Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void => {
     this.engine.eventHandler.unregisterEventCallback(type, callback);
+
+    const index: number = this.eventCallbacks.findIndex(entry => entry.type === type && entry.callback === callback);
+    if (index !== -1) this.eventCallbacks.splice(index, 1);
+  };
+
+  /**
+   * Unregisters the event callbacks registered through the element until
+   * they are resumed. Callbacks registered in the meantime are held back too.
+   */
+  suspendEventCallbacks = (): void => {
+    if (this.isSuspended) return;
+
+    this.isSuspended = true;
+    this.eventCallbacks.forEach(({ type, callback }) => this.engine.eventHandler.unregisterEventCallback(type, callback));
   };
 
+  /**
+   * Registers the element's suspended event callbacks again.
+   */
+  resumeEventCallbacks = (): void => {
+    if (!this.isSuspended) return;
+
+    this.isSuspended = false;
+    this.eventCallbacks.forEach(({ type, callback }) => this.engine.eventHandler.registerEventCallback(type, callback));
+  };
+
+  /**
+   * Preloads the element. Elements that have already been preloaded resolve
+   * immediately.
+   *
+   * @returns {Promise<any>}
+   */
   start = (): Promise<any> => {
+    if (this.isPreloaded) return Promise.resolve(true);
+
     return new Promise((resolve, reject) => {
       this.preload()
         .then(() => {
           this.isPreloaded = true;
-          this.engine.preloadedActorCount++;
           resolve(true);
         })
         .catch((err) => reject(err));
@@ -108,37 +279,144 @@ export default class Element {
     if (Math.abs(this.velocity.y) < Number.EPSILON) this.velocity.y = 0;
 
     this.previousState = this.createLastState();
+    this.isInterpolationEnabled = true;
 
+    this.integrate(frameTimestep / MILLISECONDS_PER_SECOND);
     this.internalTick(frameTimestep);
+
+    this.children.forEach(child => child.tick(frameTimestep));
+  };
+
+  protected internalTick = (_frameTimestep: number): void => { };
+
+  /**
+   * Records the current state of the element and its descendants as their
+   * previous state, so they render where they are instead of interpolating
+   * towards it. Called in place of tick() while the element's time is frozen.
+   */
+  syncPreviousState = (): void => {
+    this.previousState = this.createLastState();
+    this.children.forEach(child => child.syncPreviousState());
   };
 
-  protected internalTick = (frameTimestep: number): void => { };
+  /**
+   * Gets the scheduler the element's timers run on. Subclasses can override
+   * this to follow their own time, such as a scene's time scale.
+   *
+   * @returns {Schedulable} the scheduler
+   */
+  protected getScheduler = (): Schedulable => this.engine.scheduler;
+
+  /**
+   * Gets the acceleration applied to the element this tick. Subclasses can
+   * override this to add forces such as gravity.
+   *
+   * @returns {Vector2D} the acceleration in units per second squared
+   */
+  protected getAcceleration = (): Vector2D => this.acceleration;
+
+  /**
+   * Advances the position and rotation of the element by one tick, applying
+   * acceleration, drag and speed limits.
+   *
+   * @param {number} deltaTime the duration of the tick in seconds
+   */
+  private integrate = (deltaTime: number): void => {
+    const acceleration: Vector2D = this.getAcceleration();
+
+    if (this.integrator === "verlet")
+      this.position = this.position.add(this.velocity.multiply(deltaTime)).add(acceleration.multiply(deltaTime * deltaTime / 2));
+
+    this.velocity = this.velocity.add(acceleration.multiply(deltaTime)).multiply(Math.exp(-this.drag * deltaTime));
+    if (this.velocity.magnitude > this.maxSpeed) this.velocity = this.velocity.normalize().multiply(this.maxSpeed);
+
+    if (this.integrator === "euler") this.position = this.position.add(this.velocity.multiply(deltaTime));
+
+    this.angularVelocity *= Math.exp(-this.angularDrag * deltaTime);
+    this.angularVelocity = Math.min(Math.max(this.angularVelocity, -this.maxAngularSpeed), this.maxAngularSpeed);
+    this.rotation += this.angularVelocity * deltaTime;
+  };
 
   /**
    * Performs common rendering logic
    *
    * @param interpolationFactor interpolated time between current delta and target timestep
+   * @param isCapture whether or not the element is redrawn for a frame capture, which is not profiled
    */
-  render = (interpolationFactor: number): void => {
+  render = (interpolationFactor: number, isCapture: boolean = false): void => {
     if (!this.isRenderEnabled || this.isQueuedForDisposal) return;
-    let ctx = this.engine.ctx;
+    const renderer = this.engine.renderer;
 
-    if (this.isInterpolationEnabled) this.position = this.previousState.position
-      .add(this.position.subtract(this.previousState.position).multiply(interpolationFactor));
+    this.renderState = this.isInterpolationEnabled ? {
+      position: this.previousState.position.add(this.position.subtract(this.previousState.position).multiply(interpolationFactor)),
+      rotation: this.previousState.rotation + (this.rotation - this.previousState.rotation) * interpolationFactor,
+    } : { position: this.position, rotation: this.rotation };
 
-    this.previousState.position = this.previousState.position.add(this.position.subtract(this.previousState.position).multiply(interpolationFactor));
-    this.isInterpolationEnabled = true;
+    renderer.save();
+    this.internalRender(renderer, interpolationFactor, isCapture);
+    renderer.restore();
+
+    this.children.forEach(child => child.render(interpolationFactor, isCapture));
+  };
+
+  protected internalRender = (_renderer: RenderBackendable, _interpolationFactor: number, _isCapture: boolean): void => { };
+
+  /**
+   * Called when the element is disposed, before it is cleaned up.
+   */
+  onDestroy = (): void => { };
+
+  /**
+   * Queues the element and its descendants for disposal. Queued elements are
+   * no longer ticked or rendered, and are disposed by their owner at the end
+   * of the next tick.
+   */
+  destroy = (): void => {
+    this.isQueuedForDisposal = true;
+    this.children.forEach(child => child.destroy());
+  };
 
-    ctx.save();
-    this.internalRender(ctx, interpolationFactor);
-    ctx.restore();
+  /**
+   * Cleans up the element: calls its onDestroy hook, detaches it from its
+   * parent, cancels its tweens and timers and unregisters every event
+   * callback registered through it.
+   * Called by the element's owner; use destroy() to remove an element.
+   */
+  dispose = (): void => {
+    this.onDestroy();
+
+    this.setParent(null);
+    this.cancelScheduled();
+    this.suspendEventCallbacks();
+    this.eventCallbacks = [];
+    this.isSuspended = false;
+
+    this.internalDispose();
   };
 
-  protected internalRender = (ctx: CanvasRenderingContext2D, interpolationFactor: number): void => { };
+  protected internalDispose = (): void => { };
+
+  /**
+   * Transforms the renderer into the element's local space, using the
+   * interpolated state of the element and its ancestors from the current
+   * frame. Drawing a rect at (0, 0) with the size of the element afterwards
+   * covers the element.
+   *
+   * @param {RenderBackendable} renderer the render backend to transform
+   */
+  protected applyRenderTransform = (renderer: RenderBackendable): void => {
+    this._parent?.applyRenderTransform(renderer);
+
+    const pivotOffset: Vector2D = this.pivotOffset;
+
+    renderer.translate(this.renderState.position.x + pivotOffset.x, this.renderState.position.y + pivotOffset.y);
+    renderer.rotate(this.renderState.rotation);
+    renderer.translate(-pivotOffset.x, -pivotOffset.y);
+  };
 
   /**
    * Immediately moves the actor to the specified position. Disables
-   * interpolation for the next frame.
+   * interpolation until the next tick.
    *
    * @param pos position to move actor to
    */
@@ -147,6 +425,212 @@ export default class Element {
     this.isInterpolationEnabled = false;
   }
 
+  /**
+   * Animates properties of the element with the engine's tween manager. The
+   * tween is cancelled if the element is destroyed.
+   *
+   * @param {TweenValues<this>} values the values to animate to
+   * @param options optional tween properties
+   *
+   * @returns {Tweenable} the playing tween
+   */
+  tween = (values: TweenValues<this>, options: TweenOptions = {}): Tweenable => this.engine.tweens.to(this, values, options);
+
+  /**
+   * Calls a function once after a delay. The timer is cancelled if the
+   * element is disposed, reset or despawned.
+   *
+   * @param {number} delay the delay in milliseconds
+   * @param callback the function to call
+   *
+   * @returns {Timerable} the timer
+   */
+  after = (delay: number, callback: () => void): Timerable => this.addTimer(this.getScheduler().after(delay, callback));
+
+  /**
+   * Calls a function repeatedly at an interval. The timer is cancelled if
+   * the element is disposed, reset or despawned.
+   *
+   * @param {number} interval the interval in milliseconds
+   * @param callback the function to call
+   *
+   * @returns {Timerable} the timer
+   *
+   * @throws {RangeError} if the interval is not positive
+   */
+  every = (interval: number, callback: () => void): Timerable => this.addTimer(this.getScheduler().every(interval, callback));
+
+  /**
+   * Cancels the tweens animating the element and the timers scheduled
+   * through it.
+   */
+  cancelScheduled = (): void => {
+    this.engine.tweens.cancelTweensOf(this);
+
+    this.timers.forEach(timer => timer.cancel());
+    this.timers = [];
+  };
+
+  /**
+   * Keeps track of a timer scheduled through the element, forgetting timers
+   * that are no longer active.
+   *
+   * @private
+   *
+   * @param {Timerable} timer the timer to track
+   *
+   * @returns {Timerable} the timer
+   */
+  private addTimer = (timer: Timerable): Timerable => {
+    this.timers = this.timers.filter(timer => timer.isActive);
+    this.timers.push(timer);
+
+    return timer;
+  };
+
+  /**
+   * Restores the element to the state it would have if it were created with
+   * the given options, so it can be reused. The element is detached from its
+   * parent and enabled, and its tweens and timers are cancelled; its name, ID
+   * and children are kept.
+   *
+   * @param options element properties to apply
+   */
+  reset = (options: ElementOptions = {}): void => {
+    this.position = options.position ?? new Vector2D();
+    this.velocity = options.velocity ?? new Vector2D();
+    this.acceleration = options.acceleration ?? new Vector2D();
+    this.rotation = options.rotation ?? 0;
+    this.angularVelocity = options.angularVelocity ?? 0;
+    this.drag = options.drag ?? 0;
+    this.angularDrag = options.angularDrag ?? 0;
+    this.maxSpeed = options.maxSpeed ?? Infinity;
+    this.maxAngularSpeed = options.maxAngularSpeed ?? Infinity;
+    this.integrator = options.integrator ?? "euler";
+    this.scale = options.scale ?? new Vector2D(1, 1);
+    this.pivot = options.pivot ?? new Vector2D(0.5, 0.5);
+    this.opacity = options.opacity ?? 1;
+    this.isDebugEnabled = options.isDebugEnabled ?? false;
+
+    this.isQueuedForDisposal = false;
+    this.isRenderEnabled = true;
+    this.isTickEnabled = true;
+    this.isInterpolationEnabled = true;
+
+    this.setParent(null);
+    this.cancelScheduled();
+
+    this.previousState = this.createLastState();
+    this.renderState = { position: this.position, rotation: this.rotation };
+
+    this.internalReset(options);
+  };
+
+  protected internalReset = (_options: ElementOptions): void => { };
+
+  /**
+   * Attaches this element to a parent element, or detaches it if the parent
+   * is null.
+   *
+   * @param {Element | null} parent the element to attach to
+   * @param {boolean} isWorldTransformKept whether or not to adjust the local
+   * position and rotation so the element stays where it is in the world
+   *
+   * @throws {Error} if the parent is this element or one of its descendants
+   */
+  setParent = (parent: Element | null, isWorldTransformKept: boolean = false): void => {
+    if (parent === this._parent) return;
+
+    for (let ancestor: Element | null = parent; ancestor; ancestor = ancestor.parent) {
+      if (ancestor === this) throw new Error(`Element ${this.name} cannot be attached to itself or one of its descendants.`);
+    }
+
+    const worldPivot: Vector2D = this.toWorld(this.pivotOffset);
+    const worldRotation: number = this.getWorldRotation();
+
+    if (this._parent) this._parent.children.splice(this._parent.children.indexOf(this), 1);
+
+    this._parent = parent;
+    parent?.children.push(this);
+
+    if (isWorldTransformKept) {
+      this.setPosition((parent ? parent.toLocal(worldPivot) : worldPivot).subtract(this.pivotOffset));
+      this.rotation = worldRotation - (parent?.getWorldRotation() ?? 0);
+    }
+  };
+
+  /**
+   * Attaches an element to this element.
+   *
+   * @param {Element} child the element to attach
+   * @param {boolean} isWorldTransformKept whether or not the child should stay
+   * where it is in the world
+   */
+  addChild = (child: Element, isWorldTransformKept: boolean = false): void => child.setParent(this, isWorldTransformKept);
+
+  /**
+   * Detaches an element from this element.
+   *
+   * @param {Element} child the element to detach
+   * @param {boolean} isWorldTransformKept whether or not the child should stay
+   * where it is in the world
+   *
+   * @returns {boolean} true if the element was a child of this element
+   */
+  removeChild = (child: Element, isWorldTransformKept: boolean = false): boolean => {
+    if (child.parent !== this) return false;
+
+    child.setParent(null, isWorldTransformKept);
+    return true;
+  };
+
+  /**
+   * Gets the position of the element in world space, composed from the
+   * positions and rotations of its ancestors. This is where the element's
+   * top left corner would be if the element itself were not rotated.
+   *
+   * @returns {Vector2D} the world position
+   */
+  getWorldPosition = (): Vector2D => this._parent ? this._parent.toWorld(this.position) : this.position;
+
+  /**
+   * Gets the rotation of the element in world space, in radians.
+   *
+   * @returns {number} the sum of the rotations of the element and its
+   * ancestors
+   */
+  getWorldRotation = (): number => this.rotation + (this._parent?.getWorldRotation() ?? 0);
+
+  /**
+   * Converts a point from this element's local space into world space. Local
+   * space has its origin at the element's top left corner and rotates about
+   * the element's pivot.
+   *
+   * @param {Vector2D} point the point relative to this element
+   *
+   * @returns {Vector2D} the point in world space
+   */
+  toWorld = (point: Vector2D): Vector2D => {
+    const pivotOffset: Vector2D = this.pivotOffset;
+    const parentPoint: Vector2D = this.position.add(pivotOffset).add(point.subtract(pivotOffset).rotate(this.rotation));
+
+    return this._parent ? this._parent.toWorld(parentPoint) : parentPoint;
+  };
+
+  /**
+   * Converts a point from world space into this element's local space.
+   *
+   * @param {Vector2D} point the point in world space
+   *
+   * @returns {Vector2D} the point relative to this element
+   */
+  toLocal = (point: Vector2D): Vector2D => {
+    const pivotOffset: Vector2D = this.pivotOffset;
+    const parentPoint: Vector2D = this._parent ? this._parent.toLocal(point) : point;
+
+    return parentPoint.subtract(this.position).subtract(pivotOffset).rotate(-this.rotation).add(pivotOffset);
+  };
+
   protected createLastState = (): ElementState => {
     return {
       position: this.position,
@@ -157,4 +641,37 @@ export default class Element {
   };
 
   get ID(): string { return this.internalID; }
+
+  /**
+   * The pivot of the element in units, measured from its top left corner.
+   */
+  get pivotOffset(): Vector2D {
+    return new Vector2D(this.pivot.x * this.scale.x, this.pivot.y * this.scale.y);
+  }
+
+  /**
+   * The element this element is attached to, if any.
+   */
+  get parent(): Element | null { return this._parent; }
+
+  /**
+   * The opacity of the element multiplied with the opacity of its ancestors.
+   */
+  get opacityInHierarchy(): number {
+    return this.opacity * (this._parent?.opacityInHierarchy ?? 1);
+  }
+
+  /**
+   * Whether or not the element and all of its ancestors are render-enabled.
+   */
+  get isRenderEnabledInHierarchy(): boolean {
+    return this.isRenderEnabled && (this._parent?.isRenderEnabledInHierarchy ?? true);
+  }
+
+  /**
+   * Whether or not the element and all of its ancestors are tick-enabled.
+   */
+  get isTickEnabledInHierarchy(): boolean {
+    return this.isTickEnabled && (this._parent?.isTickEnabledInHierarchy ?? true);
+  }
 }
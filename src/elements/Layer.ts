@@ -0,0 +1,117 @@
+import Vector2D from "@/math/Vector2D";
+
+/**
+ * The name of the layer every scene starts with, and that actors are placed
+ * on unless told otherwise.
+ */
+export const DEFAULT_LAYER: string = "default";
+
+/**
+ * A named render layer in a scene. Layers are drawn in order of their z-index,
+ * and the actors on a layer are drawn in order of their own z-index.
+ */
+export default class Layer implements Layerable {
+  readonly name: string;
+
+  /**
+   * The order the layer is drawn in. Layers with a higher z-index are drawn
+   * on top. Layers with the same z-index are drawn in the order they were
+   * added.
+   *
+   * @default 0
+   */
+  zIndex: number;
+
+  /**
+   * Whether or not the layer and its actors are drawn.
+   *
+   * @default true
+   */
+  isVisible: boolean;
+
+  /**
+   * The opacity of the layer, from 0 to 1.
+   *
+   * @default 1
+   */
+  opacity: number;
+
+  /**
+   * How far the layer moves relative to the scene camera on each axis. A
+   * factor of 1 moves with the camera, 0 stays fixed on screen, and values in
+   * between scroll slower, like a distant background.
+   *
+   * @default (1, 1)
+   */
+  parallax: Vector2D;
+
+  /**
+   * An image drawn behind the actors on the layer.
+   *
+   * @default null
+   */
+  background: ImageBitmap | null;
+
+  /**
+   * How the background image is repeated across the scene.
+   *
+   * @default "repeat"
+   */
+  backgroundRepeat: BackgroundRepeat;
+
+  /**
+   * Creates a new Layer instance.
+   *
+   * @param {string} name name of layer
+   * @param options optional properties to assign at creation
+   */
+  constructor(name: string, options: LayerOptions = {}) {
+    this.name = name;
+    this.zIndex = options.zIndex ?? 0;
+    this.isVisible = options.isVisible ?? true;
+    this.opacity = options.opacity ?? 1;
+    this.parallax = options.parallax ?? new Vector2D(1, 1);
+    this.background = options.background ?? null;
+    this.backgroundRepeat = options.backgroundRepeat ?? "repeat";
+  }
+
+  /**
+   * Gets how far the contents of the layer are shifted by a camera.
+   *
+   * @param {Vector2D} cameraPosition the position of the scene camera
+   *
+   * @returns {Vector2D} the camera position scaled by the layer's parallax
+   */
+  getCameraOffset = (cameraPosition: Vector2D): Vector2D => {
+    return new Vector2D(cameraPosition.x * this.parallax.x, cameraPosition.y * this.parallax.y);
+  };
+
+  /**
+   * Draws the background image, tiled to cover an area if it repeats.
+   *
+   * @param {RenderBackendable} renderer the render backend to draw with
+   * @param {Vector2D} cameraPosition the position of the scene camera
+   * @param {Vector2D} areaPosition the top left corner of the area to cover
+   * @param {Vector2D} areaSize the size of the area to cover
+   */
+  renderBackground = (renderer: RenderBackendable, cameraPosition: Vector2D, areaPosition: Vector2D, areaSize: Vector2D): void => {
+    if (!this.background) return;
+
+    const { width, height } = this.background;
+    const origin: Vector2D = this.getCameraOffset(cameraPosition).multiply(-1);
+
+    const isRepeatedX: boolean = this.backgroundRepeat === "repeat" || this.backgroundRepeat === "repeat-x";
+    const isRepeatedY: boolean = this.backgroundRepeat === "repeat" || this.backgroundRepeat === "repeat-y";
+
+    const startX: number = isRepeatedX ? origin.x + Math.floor((areaPosition.x - origin.x) / width) * width : origin.x;
+    const startY: number = isRepeatedY ? origin.y + Math.floor((areaPosition.y - origin.y) / height) * height : origin.y;
+    const endX: number = isRepeatedX ? areaPosition.x + areaSize.x : startX + 1;
+    const endY: number = isRepeatedY ? areaPosition.y + areaSize.y : startY + 1;
+
+    for (let y = startY; y < endY; y += height) {
+      for (let x = startX; x < endX; x += width) {
+        renderer.drawImage(this.background, 0, 0, width, height, x, y, width, height);
+      }
+    }
+  };
+}
@@ -1,5 +1,7 @@
 import Vector2D from "@/math/Vector2D";
+import Scheduler from "@/core/Scheduler";
 import Element from "./Element";
+import Layer, { DEFAULT_LAYER } from "./Layer";
 
 /**
  * @class Scene
@@ -11,6 +13,73 @@ export default class Scene extends Element {
 
   actors: Map<string, Actorable> = new Map();
 
+  /**
+   * The render layers of the scene, keyed by name. Every scene has a layer
+   * named "default".
+   */
+  layers: Map<string, Layerable> = new Map([[DEFAULT_LAYER, new Layer(DEFAULT_LAYER)]]);
+
+  /**
+   * A multiplier applied on top of the engine's time scale to the delta time
+   * of every actor tick in this scene. A time scale of 0 freezes the scene's
+   * actors while the rest of the engine keeps running. Negative values are
+   * treated as 0.
+   *
+   * @default 1
+   */
+  timeScale: number;
+
+  /**
+   * Runs timers and coroutines in step with the scene's tick, with the
+   * scene's time scale. Time does not pass while the scene is not ticked.
+   *
+   * @readonly
+   */
+  readonly scheduler: Scheduler = new Scheduler();
+
+  /**
+   * The actors in the scene with each tag. Each set is the live group
+   * returned by getGroup(), so sets are kept once created, even when empty.
+   *
+   * @private
+   * @default new Map()
+   */
+  private tagIndex: Map<string, Set<Actorable>> = new Map();
+
+  /**
+   * Despawned actors waiting to be reused, per prefab.
+   *
+   * @private
+   * @default new Map()
+   */
+  private pools: Map<Prefab<Actorable>, Array<Actorable>> = new Map();
+
+  /**
+   * The descendants of each pooled actor, which leave the scene with it and
+   * return when it is spawned again.
+   *
+   * @private
+   * @default new Map()
+   */
+  private pooledDescendants: Map<Actorable, Array<Actorable>> = new Map();
+
+  /**
+   * Actors spawned after the scene was preloaded whose own preload has not
+   * finished. They are not ticked or rendered until it has.
+   *
+   * @private
+   * @default new Set()
+   */
+  private startingActors: Set<Actorable> = new Set();
+
+  /**
+   * An entity-component-system world ticked and rendered with the scene's
+   * actors, for large numbers of lightweight entities.
+   *
+   * @default null
+   */
+  world: Worldable | null = null;
+
   environment: SceneEnvironment = {
     background: "transparent",
     gravity: new Vector2D()
@@ -28,46 +97,502 @@ export default class Scene extends Element {
     super(name, engine, options);
 
     this.camera = camera;
+    this.timeScale = options.timeScale ?? 1;
 
     this.environment.background = options.background ?? this.environment.background;
     this.environment.gravity = options.gravity ?? this.environment.gravity;
 
-    this.engine.scenes.set(this.ID, this);
+    this.engine.addScene(this);
 
     this.engine.parameterGUI.baseSection.addSubsection(this.name, false)
       .addParameter("background", () => this.environment.background)
       .addParameter("Position", () => this.position)
       .addParameter("Velocity", () => this.velocity)
+      .addParameter("Time Scale", () => this.timeScale)
   }
 
   override start = (): Promise<any> => {
+    if (this.isPreloaded) return Promise.all(this.getAllActors().map(actor => actor.start()));
+
     return new Promise(async (resolve, reject) => {
       this.preload()
         .then(() => {
           this.isPreloaded = true;
-          resolve(Promise.all(Array.from(this.actors.values()).map(actor => actor.start())));
+          resolve(Promise.all(this.getAllActors().map(actor => actor.start())));
         })
         .catch(err => reject(err));
     });
   };
 
+  protected override getScheduler = (): Schedulable => this.scheduler;
+
   override internalTick = (targetFrameTimestep: number) => {
-    Array.from(this.actors.values()).forEach(actor => actor.tick(targetFrameTimestep));
+    const scaledTimestep: number = targetFrameTimestep * Math.max(this.timeScale, 0);
+
+    if (scaledTimestep > 0) {
+      this.scheduler.update(scaledTimestep);
+
+      this.activeRootActors.forEach(actor => this.engine.profiler.measure(`tick:${this.name}/${actor.name}`, () => actor.tick(scaledTimestep)));
+
+      if (this.world) this.engine.profiler.measure(`tick:${this.name}/world`, () => this.world!.tick(scaledTimestep));
+    } else {
+      this.activeRootActors.forEach(actor => actor.syncPreviousState());
+    }
   }
 
-  override internalRender = (ctx: CanvasRenderingContext2D, interpolationFactor: number): void => {
-    ctx.fillStyle = this.environment.background;
-    ctx.fillRect(this.position.x, this.position.y, this.scale.x, this.scale.y);
+  override internalDispose = (): void => {
+    this.scheduler.cancelAll();
+
+    this.getAllActors().forEach(actor => actor.dispose());
+    this.actors.forEach(actor => this.removeProfilerLabels(actor.name));
+    this.actors.clear();
+    this.pools.clear();
+    this.pooledDescendants.clear();
+    this.startingActors.clear();
+    this.tagIndex.forEach(group => group.clear());
+
+    this.engine.parameterGUI.baseSection.removeSubsection(this.name);
+  };
+
+  override internalRender = (renderer: RenderBackendable, interpolationFactor: number, isCapture: boolean): void => {
+    const measure = (label: string, callback: () => void): void => isCapture ? callback() : this.engine.profiler.measure(label, callback);
+
+    renderer.setFillStyle(this.environment.background);
+    renderer.fillRect(this.position.x, this.position.y, this.scale.x, this.scale.y);
+
+    renderer.save();
+
+    renderer.beginPath();
+    renderer.rect(this.position.x, this.position.y, this.scale.x, this.scale.y);
+    renderer.clip();
+
+    renderer.scale(this.camera.zoom, this.camera.zoom);
+
+    const layerActors: Map<Layerable, Array<Actorable>> = this.getLayerActors();
+
+    this.sortedLayers.forEach(layer => {
+      if (!layer.isVisible) return;
+
+      renderer.save();
+      renderer.setAlpha(renderer.getAlpha() * layer.opacity);
+
+      layer.renderBackground(renderer, this.camera.position, this.position.divide(this.camera.zoom), this.scale.divide(this.camera.zoom));
+
+      layerActors.get(layer)?.forEach(actor => measure(`render:${this.name}/${actor.name}`, () => actor.render(interpolationFactor, isCapture)));
+      if (this.world) measure(`render:${this.name}/world`, () => this.world!.render(renderer, this, layer, interpolationFactor));
+
+      renderer.restore();
+    });
+
+    renderer.restore();
+  }
+
+  /**
+   * Adds an actor to the scene and indexes its tags. Called by actors on
+   * creation and by spawn().
+   *
+   * @param {Actorable} actor the actor to add
+   */
+  addActor = (actor: Actorable): void => {
+    this.actors.set(actor.ID, actor);
+    actor.tags.forEach(tag => this.getTaggedActors(tag).add(actor));
+  };
+
+  /**
+   * Updates the tag index after an actor gains or loses a tag. Called by
+   * actors when their tags change.
+   *
+   * @param {Actorable} actor the actor whose tags changed
+   * @param {string} tag the tag that was added or removed
+   */
+  handleTagChange = (actor: Actorable, tag: string): void => {
+    if (actor.hasTag(tag) && this.actors.has(actor.ID)) this.getTaggedActors(tag).add(actor);
+    else this.tagIndex.get(tag)?.delete(actor);
+  };
+
+  /**
+   * Gets the actors in the scene with a tag.
+   *
+   * @param {string} tag the tag to look for
+   *
+   * @returns {Array<Actorable>} the tagged actors
+   */
+  getActorsByTag = (tag: string): Array<Actorable> => Array.from(this.tagIndex.get(tag) ?? []);
+
+  /**
+   * Gets a live group of the actors in the scene with a tag. The group
+   * updates as tagged actors are created, spawned, despawned and destroyed,
+   * and as actors gain or lose the tag.
+   *
+   * @param {string} tag the tag of the group
+   *
+   * @returns {ReadonlySet<Actorable>} the group
+   */
+  getGroup = (tag: string): ReadonlySet<Actorable> => this.getTaggedActors(tag);
+
+  /**
+   * Gets the actors in the scene with a name.
+   *
+   * @param {string} name the name to look for
+   *
+   * @returns {Array<Actorable>} the actors with the name
+   */
+  getActorsByName = (name: string): Array<Actorable> => Array.from(this.actors.values()).filter(actor => actor.name === name);
+
+  /**
+   * Gets the actors in the scene that are instances of a class.
+   *
+   * @param {ActorType<Type>} type the class to look for
+   *
+   * @returns {Array<Type>} the actors of the class, including subclasses
+   */
+  getActorsByType = <Type extends Actorable>(type: ActorType<Type>): Array<Type> => {
+    return Array.from(this.actors.values()).filter((actor): actor is Type => actor instanceof type);
+  };
+
+  /**
+   * Gets the actors in the scene that overlap a rectangle in world space.
+   * Rotated actors are tested by the axis-aligned box around them.
+   *
+   * @param {Vector2D} position the top left corner of the region
+   * @param {Vector2D} size the size of the region
+   *
+   * @returns {Array<Actorable>} the overlapping actors
+   */
+  getActorsInRegion = (position: Vector2D, size: Vector2D): Array<Actorable> => {
+    return Array.from(this.actors.values()).filter(actor => {
+      const corners: Array<Vectorable> = [
+        new Vector2D(), new Vector2D(actor.scale.x, 0), new Vector2D(0, actor.scale.y), actor.scale,
+      ].map(corner => actor.toWorld(corner));
+
+      const xs: Array<number> = corners.map(corner => corner.x);
+      const ys: Array<number> = corners.map(corner => corner.y);
+
+      return Math.min(...xs) <= position.x + size.x && Math.max(...xs) >= position.x
+        && Math.min(...ys) <= position.y + size.y && Math.max(...ys) >= position.y;
+    });
+  };
+
+  /**
+   * Spawns an actor from a prefab, reusing a despawned actor from the
+   * prefab's pool if there is one. Reused actors are reset with the options
+   * and keep their textures, and return to the scene with their descendants.
+   * New actors are created without a parameter GUI section unless the options
+   * say otherwise, and are preloaded straight away if the scene already has
+   * been. Until their preload finishes they are not ticked or rendered. If it
+   * fails, they stay hidden and the engine dispatches an onpreloaderror
+   * event.
+   *
+   * @param {Prefab<Type>} prefab the actor class to spawn
+   * @param {SpawnOptions} options properties to spawn the actor with
+   *
+   * @returns {Type} the spawned actor
+   */
+  spawn = <Type extends Actorable>(prefab: Prefab<Type>, options: SpawnOptions = {}): Type => {
+    const pooledActor: Type | undefined = <Type | undefined>this.pools.get(prefab)?.pop();
+
+    if (pooledActor) {
+      pooledActor.reset(options);
+      this.restoreSubtree(pooledActor);
+    }
+
+    const actor: Type = pooledActor ?? this.createPooledActor(prefab, options);
+    actor.onSpawn(options);
+
+    return actor;
+  };
+
+  /**
+   * Removes a spawned actor from the scene and returns it to its prefab's
+   * pool. The actor is detached from its parent; its children stay attached
+   * and leave the scene with it. The tweens and timers of the actor and its
+   * descendants are cancelled, and their event callbacks are suspended until
+   * it is spawned again.
+   *
+   * @param {Actorable} actor the actor to despawn
+   *
+   * @returns {boolean} true if the actor was spawned and had not already been
+   * despawned
+   */
+  despawn = (actor: Actorable): boolean => {
+    if (!actor.prefab || !this.actors.has(actor.ID)) return false;
+
+    this.removeSubtree(actor);
+    actor.setParent(null);
+    actor.onDespawn();
+
+    if (!this.pools.has(actor.prefab)) this.pools.set(actor.prefab, []);
+    this.pools.get(actor.prefab)!.push(actor);
+
+    return true;
+  };
+
+  /**
+   * Creates despawned actors in a prefab's pool ahead of time, so spawning
+   * them later does not allocate.
+   *
+   * @param {Prefab<Actorable>} prefab the actor class to create
+   * @param {number} count the number of actors to create
+   */
+  prewarm = (prefab: Prefab<Actorable>, count: number): void => {
+    for (let i = 0; i < count; i++) {
+      const actor: Actorable = this.createPooledActor(prefab, {});
+
+      this.removeSubtree(actor);
+      if (!this.pools.has(prefab)) this.pools.set(prefab, []);
+      this.pools.get(prefab)!.push(actor);
+    }
+  };
+
+  /**
+   * Gets the number of despawned actors waiting in a prefab's pool.
+   *
+   * @param {Prefab<Actorable>} prefab the actor class of the pool
+   *
+   * @returns {number} the number of pooled actors
+   */
+  getPoolSize = (prefab: Prefab<Actorable>): number => this.pools.get(prefab)?.length ?? 0;
+
+  /**
+   * Removes an actor from the scene and the tag index.
+   *
+   * @param {Actorable} actor the actor to remove
+   *
+   * @returns {boolean} true if the actor was in the scene
+   */
+  private removeActor = (actor: Actorable): boolean => {
+    if (!this.actors.delete(actor.ID)) return false;
+    actor.tags.forEach(tag => this.tagIndex.get(tag)?.delete(actor));
+    if (this.getActorsByName(actor.name).length === 0) this.removeProfilerLabels(actor.name);
+
+    return true;
+  };
+
+  /**
+   * Removes an actor and its descendants from the scene, cancelling their
+   * tweens and timers and suspending their event callbacks, so the actor can
+   * wait in a pool.
+   *
+   * @private
+   *
+   * @param {Actorable} actor the actor to remove
+   */
+  private removeSubtree = (actor: Actorable): void => {
+    const descendants: Array<Actorable> = this.getDescendantActors(actor);
+
+    [actor, ...descendants].forEach(member => {
+      this.removeActor(member);
+      member.cancelScheduled();
+      member.suspendEventCallbacks();
+    });
+
+    this.pooledDescendants.set(actor, descendants);
+  };
+
+  /**
+   * Adds a pooled actor and its descendants back to the scene, resuming
+   * their event callbacks.
+   *
+   * @private
+   *
+   * @param {Actorable} actor the actor to add
+   */
+  private restoreSubtree = (actor: Actorable): void => {
+    const descendants: Array<Actorable> = this.pooledDescendants.get(actor) ?? [];
+    this.pooledDescendants.delete(actor);
+
+    [actor, ...descendants].forEach(member => {
+      this.addActor(member);
+      member.resumeEventCallbacks();
+    });
+  };
 
-    ctx.save();
+  /**
+   * Gets the descendants of an actor that are in the scene.
+   *
+   * @private
+   *
+   * @param {Actorable} actor the actor to get the descendants of
+   *
+   * @returns {Array<Actorable>} the descendants, depth first
+   */
+  private getDescendantActors = (actor: Actorable): Array<Actorable> => {
+    return actor.children.flatMap(child => {
+      const descendant: Actorable | undefined = this.actors.get(child.ID);
 
-    ctx.beginPath();
-    ctx.rect(this.position.x, this.position.y, this.scale.x, this.scale.y);
-    ctx.clip();
+      return descendant ? [descendant, ...this.getDescendantActors(descendant)] : [];
+    });
+  };
 
-    ctx.scale(this.camera.zoom, this.camera.zoom);
+  /**
+   * Removes the profiler labels of the actors with a name, so labels do not
+   * pile up as actors are spawned and destroyed.
+   *
+   * @private
+   *
+   * @param {string} name the name of the actors
+   */
+  private removeProfilerLabels = (name: string): void => {
+    this.engine.profiler.removeLabel(`tick:${this.name}/${name}`);
+    this.engine.profiler.removeLabel(`render:${this.name}/${name}`);
+  };
 
-    Array.from(this.actors.values()).forEach(actor => actor.render(interpolationFactor));
-    ctx.restore();
+  /**
+   * Gets the set of actors with a tag, creating it if needed.
+   *
+   * @param {string} tag the tag of the set
+   *
+   * @returns {Set<Actorable>} the tagged actors
+   */
+  private getTaggedActors = (tag: string): Set<Actorable> => {
+    if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+
+    return this.tagIndex.get(tag)!;
+  };
+
+  /**
+   * Creates a new actor from a prefab.
+   *
+   * @param {Prefab<Type>} prefab the actor class to create
+   * @param {SpawnOptions} options properties to create the actor with
+   *
+   * @returns {Type} the new actor
+   */
+  private createPooledActor = <Type extends Actorable>(prefab: Prefab<Type>, options: SpawnOptions): Type => {
+    const actor: Type = new prefab(options.name ?? prefab.name, this, { isGUIEnabled: false, ...options });
+    actor.prefab = prefab;
+
+    if (this.isPreloaded) {
+      this.startingActors.add(actor);
+
+      actor.start()
+        .then(() => this.startingActors.delete(actor))
+        .catch(error => this.engine.reportPreloadError(actor, error));
+    }
+
+    return actor;
+  };
+
+  /**
+   * Disposes and removes every actor queued for disposal, including despawned
+   * actors waiting in pools. Called by the engine after every tick.
+   */
+  disposeQueuedActors = (): void => {
+    this.actors.forEach(actor => {
+      if (!actor.isQueuedForDisposal) return;
+
+      actor.dispose();
+      this.removeActor(actor);
+      this.startingActors.delete(actor);
+    });
+
+    this.pools.forEach((pool, prefab) => {
+      pool.filter(actor => actor.isQueuedForDisposal).forEach(actor => {
+        [actor, ...this.pooledDescendants.get(actor) ?? []].forEach(member => member.dispose());
+        this.pooledDescendants.delete(actor);
+        this.startingActors.delete(actor);
+      });
+      this.pools.set(prefab, pool.filter(actor => !actor.isQueuedForDisposal));
+    });
+  };
+
+  /**
+   * Gets the actors in the scene and the actors waiting in its pools, with
+   * their descendants.
+   *
+   * @returns {Array<Actorable>} every actor the scene owns
+   */
+  private getAllActors = (): Array<Actorable> => {
+    return [...this.actors.values(), ...Array.from(this.pools.values()).flat(), ...Array.from(this.pooledDescendants.values()).flat()];
+  };
+
+  /**
+   * Adds a new render layer to the scene.
+   *
+   * @param {string} name name of layer
+   * @param options optional properties to assign at creation
+   *
+   * @returns {Layerable} the new layer
+   *
+   * @throws {Error} if the scene already has a layer with the same name
+   */
+  addLayer = (name: string, options: LayerOptions = {}): Layerable => {
+    if (this.layers.has(name)) throw new Error(`Scene ${this.name} already has a layer named ${name}.`);
+
+    const layer: Layerable = new Layer(name, options);
+    this.layers.set(name, layer);
+
+    return layer;
+  };
+
+  /**
+   * Removes a render layer from the scene. Actors on the layer are drawn on
+   * the default layer instead.
+   *
+   * @param {string} name name of layer to remove
+   *
+   * @returns {boolean} true if the layer was removed. The default layer
+   * cannot be removed.
+   */
+  removeLayer = (name: string): boolean => {
+    if (name === DEFAULT_LAYER) return false;
+
+    return this.layers.delete(name);
+  };
+
+  /**
+   * Gets a render layer by name.
+   *
+   * @param {string} name name of layer
+   *
+   * @returns {Layerable} the layer, or the default layer if the scene has no
+   * layer with the name
+   */
+  getLayer = (name: string): Layerable => this.layers.get(name) ?? this.layers.get(DEFAULT_LAYER)!;
+
+  /**
+   * Groups the root actors by the layer they are drawn on, each group sorted
+   * by z-index. Actors with the same z-index keep the order they were added.
+   *
+   * @returns {Map<Layerable, Array<Actorable>>} the actors on each layer
+   */
+  private getLayerActors = (): Map<Layerable, Array<Actorable>> => {
+    const layerActors: Map<Layerable, Array<Actorable>> = new Map();
+
+    this.activeRootActors.forEach(actor => {
+      const layer: Layerable = this.getLayer(actor.layer);
+
+      if (!layerActors.has(layer)) layerActors.set(layer, []);
+      layerActors.get(layer)!.push(actor);
+    });
+
+    layerActors.forEach(actors => actors.sort((a, b) => a.zIndex - b.zIndex));
+
+    return layerActors;
+  };
+
+  /**
+   * The render layers of the scene in the order they are drawn.
+   */
+  get sortedLayers(): Array<Layerable> {
+    return Array.from(this.layers.values()).sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  /**
+   * Actors that are not attached to another element. Attached actors are
+   * ticked and rendered by their parent.
+   */
+  get rootActors(): Array<Actorable> {
+    return Array.from(this.actors.values()).filter(actor => !actor.parent);
+  }
+
+  /**
+   * Root actors that are ticked and rendered, leaving out spawned actors that
+   * are still preloading.
+   *
+   * @private
+   */
+  private get activeRootActors(): Array<Actorable> {
+    return this.rootActors.filter(actor => !this.startingActors.has(actor));
   }
 }
@@ -0,0 +1,299 @@
+import Component from "./Component";
+
+const DEFAULT_HISTORY_SIZE: number = 10;
+
+/**
+ * A finite state machine component for actor behaviour. Each state can have
+ * enter, tick and exit handlers and transitions triggered by events, which
+ * may be guarded. States can be bound to textures, so the actor's animation
+ * switches with its state. A bound texture that the actor does not have yet,
+ * for example because it is still preloading, is played once it is added.
+ *
+ * The machine enters its initial state when it is first attached to an actor,
+ * and its current state is shown in its parameter GUI section.
+ */
+export default class StateMachine<State extends string, Event extends string = string> extends Component implements StateMachinable<State, Event> {
+  /**
+   * The states of the machine, keyed by name.
+   *
+   * @readonly
+   */
+  readonly states: StateDefinitions<State, Event>;
+
+  /**
+   * The maximum number of previous states remembered for back().
+   *
+   * @readonly
+   * @default 10
+   */
+  readonly historySize: number;
+
+  /**
+   * Whether or not entering a state with a texture ID switches the actor to
+   * that texture.
+   *
+   * @readonly
+   * @default true
+   */
+  readonly isTextureBound: boolean;
+
+  /**
+   * Called after every state change.
+   *
+   * @private
+   */
+  private readonly onChange?: (from: State | null, to: State) => void;
+
+  /**
+   * @private
+   */
+  private _current: State;
+
+  /**
+   * @private
+   * @default null
+   */
+  private _previous: State | null = null;
+
+  /**
+   * Previously active states, most recent last.
+   *
+   * @private
+   * @default []
+   */
+  private _history: Array<State> = [];
+
+  /**
+   * Time spent in the current state in milliseconds.
+   *
+   * @private
+   * @default 0
+   */
+  private _stateTime: number = 0;
+
+  /**
+   * The texture of the current state, if the actor did not have it when the
+   * state was entered.
+   *
+   * @private
+   * @default null
+   */
+  private pendingTextureID: string | null = null;
+
+  /**
+   * Whether or not the initial state has been entered.
+   *
+   * @private
+   * @default false
+   */
+  private isStarted: boolean = false;
+
+  /**
+   * Creates a new StateMachine instance.
+   *
+   * @param {State} initial the state to start in
+   * @param {StateDefinitions<State, Event>} states the states of the machine
+   * @param options optional properties to assign at creation
+   */
+  constructor(initial: State, states: StateDefinitions<State, Event>, options: StateMachineOptions<State> = {}) {
+    super(options);
+
+    this.states = states;
+    this.historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+    this.isTextureBound = options.isTextureBound ?? true;
+    this.onChange = options.onChange;
+
+    this._current = initial;
+  }
+
+  override onAttach = (_actor: Actorable): void => {
+    if (this.isStarted) return;
+
+    this.isStarted = true;
+    this.enterState(null);
+  };
+
+  override tick = (timestep: number): void => {
+    if (this.pendingTextureID !== null) this.bindTexture(this.pendingTextureID);
+
+    this._stateTime += timestep;
+    this.states[this._current].tick?.(timestep, this);
+  };
+
+  override addGUIParameters = (section: GUISectionable): void => {
+    section
+      .addParameter("Enabled", () => this.isEnabled)
+      .addParameter("State", () => this._current)
+      .addParameter("Previous", () => this._previous ?? "none")
+      .addParameter("State Time", () => this._stateTime);
+  };
+
+  /**
+   * Sends an event to the current state. The state changes to the first of
+   * the event's transitions whose guard passes.
+   *
+   * @param {Event} event the event to send
+   *
+   * @returns {boolean} true if the state changed
+   *
+   * @throws {Error} if the machine is not attached to an actor
+   */
+  send = (event: Event): boolean => {
+    const target: State | null = this.getTarget(event);
+    if (target === null) return false;
+
+    this.transition(target);
+    return true;
+  };
+
+  /**
+   * Checks whether or not an event would change the current state.
+   *
+   * @param {Event} event the event to check
+   *
+   * @returns {boolean} true if one of the event's transitions can be taken
+   */
+  can = (event: Event): boolean => this.getTarget(event) !== null;
+
+  /**
+   * Changes to a state, ignoring transitions and guards. The current state is
+   * exited and re-entered if it is the target.
+   *
+   * @param {State} state the state to change to
+   *
+   * @throws {Error} if the machine is not attached to an actor
+   */
+  transition = (state: State): void => {
+    this.changeState(state, true);
+  };
+
+  /**
+   * Returns to the most recent state in the history, removing it from the
+   * history. The state returned from becomes the previous state.
+   *
+   * @returns {boolean} true if there was a previous state to return to
+   *
+   * @throws {Error} if the machine is not attached to an actor
+   */
+  back = (): boolean => {
+    const state: State | undefined = this._history.pop();
+    if (state === undefined) return false;
+
+    this.changeState(state, false);
+
+    return true;
+  };
+
+  /**
+   * Finds the state an event would change to.
+   *
+   * @private
+   *
+   * @param {Event} event the event to check
+   *
+   * @returns {State | null} the target of the first transition whose guard
+   * passes, or null if there is none
+   */
+  private getTarget = (event: Event): State | null => {
+    const transitions: StateTransition<State> | Array<StateTransition<State>> | undefined = this.states[this._current].on?.[event];
+    if (transitions === undefined) return null;
+
+    const transition: StateTransition<State> | undefined = (Array.isArray(transitions) ? transitions : [transitions])
+      .find(transition => typeof transition === "string" || (transition.guard?.() ?? true));
+    if (transition === undefined) return null;
+
+    return typeof transition === "string" ? transition : transition.target;
+  };
+
+  /**
+   * Exits the current state and enters another.
+   *
+   * @private
+   *
+   * @param {State} state the state to change to
+   * @param {boolean} isRecorded whether or not the exited state is added to
+   * the history
+   *
+   * @throws {Error} if the machine is not attached to an actor
+   */
+  private changeState = (state: State, isRecorded: boolean): void => {
+    if (!this.isAttached) throw new Error(`State machine ${this.name} is not attached to an actor.`);
+
+    const from: State = this._current;
+    this.states[from].exit?.(state, this);
+
+    if (isRecorded) {
+      this._history.push(from);
+      if (this._history.length > this.historySize) this._history.shift();
+    }
+
+    this._previous = from;
+    this._current = state;
+    this.enterState(from);
+  };
+
+  /**
+   * Enters the current state and switches the actor to its texture.
+   *
+   * @private
+   *
+   * @param {State | null} from the state that was exited, or null when
+   * entering the initial state
+   */
+  private enterState = (from: State | null): void => {
+    const state: StateDefinition<State, Event> = this.states[this._current];
+
+    this._stateTime = 0;
+    this.pendingTextureID = null;
+    if (this.isTextureBound && state.textureID !== undefined) this.bindTexture(state.textureID);
+
+    state.enter?.(from, this);
+    this.onChange?.(from, this._current);
+  };
+
+  /**
+   * Switches the actor to a texture, or waits for the actor to have it.
+   *
+   * @private
+   *
+   * @param {string} textureID the ID of the texture to play
+   */
+  private bindTexture = (textureID: string): void => {
+    if (this.actor.textures[textureID] === undefined) {
+      this.pendingTextureID = textureID;
+      return;
+    }
+
+    this.pendingTextureID = null;
+    this.actor.playTexture(textureID);
+  };
+
+  /**
+   * The active state.
+   */
+  get current(): State {
+    return this._current;
+  }
+
+  /**
+   * The state that was exited to enter the current one, if any. Unlike the
+   * history, this includes states left by back().
+   */
+  get previous(): State | null {
+    return this._previous;
+  }
+
+  /**
+   * Previously active states, most recent last.
+   */
+  get history(): ReadonlyArray<State> {
+    return this._history;
+  }
+
+  /**
+   * Time spent in the current state in milliseconds.
+   */
+  get stateTime(): number {
+    return this._stateTime;
+  }
+}
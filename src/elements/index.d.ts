@@ -6,40 +6,206 @@ interface Elementable {
   isRenderEnabled: boolean;
   isTickEnabled: boolean;
   isDebugEnabled: boolean;
+  isPreloaded: boolean;
 
   position: Vectorable;
   velocity: Vectorable;
+  acceleration: Vectorable;
   rotation: number;
+  angularVelocity: number;
+  drag: number;
+  angularDrag: number;
+  maxSpeed: number;
+  maxAngularSpeed: number;
+  integrator: Integrator;
   scale: Vectorable;
+  pivot: Vectorable;
+  opacity: number;
+
+  children: Array<Elementable>;
 
   registerEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void;
   unregisterEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void;
+  suspendEventCallbacks(): void;
+  resumeEventCallbacks(): void;
 
   start(): Promise<any>;
   preload(): Promise<any>;
   tick(frameTimestep: number): void;
-  render(interpolationFactor: number): void;
+  render(interpolationFactor: number, isCapture?: boolean): void;
   setPosition(position: Vectorable): void;
+  syncPreviousState(): void;
+  tween(values: TweenValues<this>, options?: TweenOptions): Tweenable;
+  after(delay: number, callback: () => void): Timerable;
+  every(interval: number, callback: () => void): Timerable;
+  cancelScheduled(): void;
+  reset(options?: ElementOptions): void;
+  onDestroy(): void;
+  destroy(): void;
+  dispose(): void;
+  setParent(parent: Elementable | null, isWorldTransformKept?: boolean): void;
+  addChild(child: Elementable, isWorldTransformKept?: boolean): void;
+  removeChild(child: Elementable, isWorldTransformKept?: boolean): boolean;
+  getWorldPosition(): Vectorable;
+  getWorldRotation(): number;
+  toWorld(point: Vectorable): Vectorable;
+  toLocal(point: Vectorable): Vectorable;
 
   get ID(): string;
+  get pivotOffset(): Vectorable;
+  get parent(): Elementable | null;
+  get opacityInHierarchy(): number;
+  get isRenderEnabledInHierarchy(): boolean;
+  get isTickEnabledInHierarchy(): boolean;
 }
 
 interface Sceneable extends Elementable {
   camera: Camerable;
+  timeScale: number;
+  readonly scheduler: Schedulable;
   actors: Map<string, Actorable>;
+  layers: Map<string, Layerable>;
+  world: Worldable | null;
   environment: SceneEnvironment;
+
+  addActor(actor: Actorable): void;
+  handleTagChange(actor: Actorable, tag: string): void;
+  getActorsByTag(tag: string): Array<Actorable>;
+  getGroup(tag: string): ReadonlySet<Actorable>;
+  getActorsByName(name: string): Array<Actorable>;
+  getActorsByType<Type extends Actorable>(type: ActorType<Type>): Array<Type>;
+  getActorsInRegion(position: Vectorable, size: Vectorable): Array<Actorable>;
+  spawn<Type extends Actorable>(prefab: Prefab<Type>, options?: SpawnOptions): Type;
+  despawn(actor: Actorable): boolean;
+  prewarm(prefab: Prefab<Actorable>, count: number): void;
+  getPoolSize(prefab: Prefab<Actorable>): number;
+  disposeQueuedActors(): void;
+  addLayer(name: string, options?: LayerOptions): Layerable;
+  removeLayer(name: string): boolean;
+  getLayer(name: string): Layerable;
+
+  get sortedLayers(): Array<Layerable>;
+  get rootActors(): Array<Actorable>;
 }
 
 interface Actorable extends Elementable {
   readonly scene: Sceneable;
 
   textureID: string;
+  layer: string;
+  zIndex: number;
+  prefab: Prefab<Actorable> | null;
 
   isGravityEnabled: boolean;
   isCollisionEnabled: boolean;
   isTextureEnabled: boolean;
+  isFlippedHorizontally: boolean;
+  isFlippedVertically: boolean;
+  gravityScale: number;
+
+  playTexture(textureID: string): void;
+  addTag(tag: string): void;
+  removeTag(tag: string): boolean;
+  hasTag(tag: string): boolean;
+  onSpawn(options: SpawnOptions): void;
+  onDespawn(): void;
+  onReset(options: ActorOptions): void;
+  despawn(): boolean;
+  reset(options?: ActorOptions): void;
+  addComponent<Type extends Componentable>(component: Type): Type;
+  removeComponent(component: Componentable): boolean;
+  getComponent<Type extends Componentable>(type: ComponentType<Type>): Type | undefined;
+  getComponents<Type extends Componentable>(type: ComponentType<Type>): Array<Type>;
+
+  get tags(): ReadonlySet<string>;
+  get components(): Array<Componentable>;
+  get textures(): { [key: string]: Texture };
+}
+
+interface Componentable {
+  readonly name: string;
+
+  isEnabled: boolean;
+
+  onAttach(actor: Actorable): void;
+  onDetach(actor: Actorable): void;
+  tick(timestep: number): void;
+  render(renderer: RenderBackendable, interpolationFactor: number): void;
+  addGUIParameters(section: GUISectionable): void;
+  attach(actor: Actorable): void;
+  detach(): void;
+
+  get actor(): Actorable;
+  get isAttached(): boolean;
+}
+
+type ComponentType<Type extends Componentable> = abstract new (...args: Array<any>) => Type;
+
+type ComponentOptions = Partial<{
+  name: string;
+  isEnabled: boolean;
+}>;
+
+interface StateMachinable<State extends string, Event extends string> extends Componentable {
+  readonly states: StateDefinitions<State, Event>;
+
+  send(event: Event): boolean;
+  can(event: Event): boolean;
+  transition(state: State): void;
+  back(): boolean;
+
+  get current(): State;
+  get previous(): State | null;
+  get history(): ReadonlyArray<State>;
+  get stateTime(): number;
+}
+
+type StateDefinition<State extends string, Event extends string> = Partial<{
+  enter: (from: State | null, machine: StateMachinable<State, Event>) => void;
+  tick: (timestep: number, machine: StateMachinable<State, Event>) => void;
+  exit: (to: State, machine: StateMachinable<State, Event>) => void;
+  on: Partial<Record<Event, StateTransition<State> | Array<StateTransition<State>>>>;
+  textureID: string;
+}>;
+
+type StateDefinitions<State extends string, Event extends string> = Record<State, StateDefinition<State, Event>>;
+
+type StateTransition<State extends string> = State | {
+  target: State;
+  guard?: () => boolean;
+};
+
+type StateMachineOptions<State extends string> = Partial<{
+  historySize: number;
+  isTextureBound: boolean;
+  onChange: (from: State | null, to: State) => void;
+} & ComponentOptions>;
+
+interface Layerable {
+  readonly name: string;
+
+  zIndex: number;
+  isVisible: boolean;
+  opacity: number;
+  parallax: Vectorable;
+  background: ImageBitmap | null;
+  backgroundRepeat: BackgroundRepeat;
+
+  getCameraOffset(cameraPosition: Vectorable): Vectorable;
+  renderBackground(renderer: RenderBackendable, cameraPosition: Vectorable, areaPosition: Vectorable, areaSize: Vectorable): void;
 }
 
+type BackgroundRepeat = "repeat" | "repeat-x" | "repeat-y" | "no-repeat";
+
+type LayerOptions = Partial<{
+  zIndex: number;
+  isVisible: boolean;
+  opacity: number;
+  parallax: Vectorable;
+  background: ImageBitmap;
+  backgroundRepeat: BackgroundRepeat;
+}>;
+
 type Texture = {
   bitmap: ImageBitmap;
   size: Vectorable;
@@ -48,21 +214,49 @@ type Texture = {
   frameCount: Vectorable;
 };
 
+type Integrator = "euler" | "verlet";
+
 type ElementOptions = Partial<{
   position: Vectorable;
   velocity: Vectorable;
+  acceleration: Vectorable;
   rotation: number;
+  angularVelocity: number;
+  drag: number;
+  angularDrag: number;
+  maxSpeed: number;
+  maxAngularSpeed: number;
+  integrator: Integrator;
   scale: Vectorable;
+  pivot: Vectorable;
+  opacity: number;
   isDebugEnabled: boolean;
 }>;
 
 type ActorOptions = Partial<{
   isGravityEnabled: boolean;
+  gravityScale: number;
+  layer: string;
+  zIndex: number;
   isCollisionEnabled: boolean;
   isTextureEnabled: boolean;
+  isFlippedHorizontally: boolean;
+  isFlippedVertically: boolean;
+  isGUIEnabled: boolean;
+  tags: Array<string>;
 } & ElementOptions>;
 
-type SceneOptions = Partial<ElementOptions & SceneEnvironment>
+type SpawnOptions = ActorOptions & Partial<{
+  name: string;
+}>;
+
+type ActorType<Type extends Actorable> = abstract new (...args: Array<any>) => Type;
+
+type Prefab<Type extends Actorable> = new (name: string, scene: Sceneable, options?: ActorOptions) => Type;
+
+type SceneOptions = Partial<ElementOptions & SceneEnvironment & {
+  timeScale: number;
+}>
 
 type SceneEnvironment = {
   background: string;
@@ -0,0 +1,56 @@
+const BACK_OVERSHOOT: number = 1.70158;
+const ELASTIC_PERIOD: number = (2 * Math.PI) / 3;
+
+/**
+ * Eases out of a bounce, like a ball dropped onto the floor.
+ *
+ * @param {number} progress linear progress, from 0 to 1
+ *
+ * @returns {number} eased progress
+ */
+const bounceOut = (progress: number): number => {
+  if (progress < 1 / 2.75) return 7.5625 * progress * progress;
+  if (progress < 2 / 2.75) return 7.5625 * (progress -= 1.5 / 2.75) * progress + 0.75;
+  if (progress < 2.5 / 2.75) return 7.5625 * (progress -= 2.25 / 2.75) * progress + 0.9375;
+
+  return 7.5625 * (progress -= 2.625 / 2.75) * progress + 0.984375;
+};
+
+/**
+ * Standard easing curves. Each maps linear progress from 0 to 1 onto eased
+ * progress, which starts at 0 and ends at 1 but may overshoot in between.
+ * "in" curves start slowly, "out" curves end slowly, and "inOut" curves do
+ * both.
+ */
+const Easing = {
+  linear: (progress: number): number => progress,
+
+  quadIn: (progress: number): number => progress * progress,
+  quadOut: (progress: number): number => 1 - (1 - progress) * (1 - progress),
+  quadInOut: (progress: number): number => progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2,
+
+  cubicIn: (progress: number): number => progress * progress * progress,
+  cubicOut: (progress: number): number => 1 - Math.pow(1 - progress, 3),
+  cubicInOut: (progress: number): number => progress < 0.5 ? 4 * progress * progress * progress : 1 - Math.pow(-2 * progress + 2, 3) / 2,
+
+  sineIn: (progress: number): number => 1 - Math.cos((progress * Math.PI) / 2),
+  sineOut: (progress: number): number => Math.sin((progress * Math.PI) / 2),
+  sineInOut: (progress: number): number => -(Math.cos(Math.PI * progress) - 1) / 2,
+
+  expoIn: (progress: number): number => progress === 0 ? 0 : Math.pow(2, 10 * progress - 10),
+  expoOut: (progress: number): number => progress === 1 ? 1 : 1 - Math.pow(2, -10 * progress),
+
+  backIn: (progress: number): number => (BACK_OVERSHOOT + 1) * progress * progress * progress - BACK_OVERSHOOT * progress * progress,
+  backOut: (progress: number): number => 1 + (BACK_OVERSHOOT + 1) * Math.pow(progress - 1, 3) + BACK_OVERSHOOT * Math.pow(progress - 1, 2),
+
+  elasticOut: (progress: number): number => {
+    if (progress === 0 || progress === 1) return progress;
+
+    return Math.pow(2, -10 * progress) * Math.sin((progress * 10 - 0.75) * ELASTIC_PERIOD) + 1;
+  },
+
+  bounceIn: (progress: number): number => 1 - bounceOut(1 - progress),
+  bounceOut,
+} satisfies Record<string, EasingFunction>;
+
+export default Easing;
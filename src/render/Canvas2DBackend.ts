@@ -0,0 +1,111 @@
+/**
+ * The default render backend. Draws directly to a 2D canvas context, which
+ * can belong to either an on-screen canvas or an OffscreenCanvas.
+ */
+export default class Canvas2DBackend implements RenderBackendable {
+  /**
+   * Whether or not the backend has a context to draw to. Environments without
+   * canvas support (such as jsdom) provide no 2D context.
+   *
+   * @readonly
+   */
+  readonly isAvailable: boolean;
+
+  /**
+   * The 2D context the backend draws to.
+   *
+   * @readonly
+   */
+  readonly ctx: Canvas2DContext;
+
+  /**
+   * The canvas the backend draws to, if known.
+   *
+   * @readonly
+   */
+  readonly canvas: HTMLCanvasElement | OffscreenCanvas | null;
+
+  /**
+   * Creates a new Canvas2DBackend instance.
+   *
+   * @param ctx the 2D context to draw to, or null if none is available
+   * @param canvas the canvas the context belongs to. Defaults to the
+   * context's canvas.
+   */
+  constructor(ctx: Canvas2DContext | null, canvas: HTMLCanvasElement | OffscreenCanvas | null = ctx?.canvas ?? null) {
+    this.isAvailable = ctx !== null;
+    this.ctx = <Canvas2DContext>ctx;
+    this.canvas = canvas;
+  }
+
+  /**
+   * Creates a new backend from the 2D context of a canvas.
+   *
+   * @param {HTMLCanvasElement | OffscreenCanvas} canvas the canvas to draw to
+   *
+   * @returns {Canvas2DBackend} a backend that draws to the canvas
+   */
+  static fromCanvas = (canvas: HTMLCanvasElement | OffscreenCanvas): Canvas2DBackend => {
+    return new Canvas2DBackend(<Canvas2DContext | null>canvas.getContext("2d"), canvas);
+  };
+
+  save = (): void => this.ctx.save();
+
+  restore = (): void => this.ctx.restore();
+
+  setTransform = (a: number, b: number, c: number, d: number, e: number, f: number): void => this.ctx.setTransform(a, b, c, d, e, f);
+
+  translate = (x: number, y: number): void => this.ctx.translate(x, y);
+
+  scale = (x: number, y: number): void => this.ctx.scale(x, y);
+
+  rotate = (radians: number): void => this.ctx.rotate(radians);
+
+  setFillStyle = (style: string): void => { this.ctx.fillStyle = style; };
+
+  setStrokeStyle = (style: string): void => { this.ctx.strokeStyle = style; };
+
+  setLineWidth = (width: number): void => { this.ctx.lineWidth = width; };
+
+  setFont = (font: string): void => { this.ctx.font = font; };
+
+  setTextAlign = (align: CanvasTextAlign): void => { this.ctx.textAlign = align; };
+
+  setAlpha = (alpha: number): void => { this.ctx.globalAlpha = alpha; };
+
+  getAlpha = (): number => this.ctx.globalAlpha;
+
+  setCompositeOperation = (operation: GlobalCompositeOperation): void => { this.ctx.globalCompositeOperation = operation; };
+
+  setImageSmoothing = (isEnabled: boolean): void => { this.ctx.imageSmoothingEnabled = isEnabled; };
+
+  clearRect = (x: number, y: number, width: number, height: number): void => this.ctx.clearRect(x, y, width, height);
+
+  fillRect = (x: number, y: number, width: number, height: number): void => this.ctx.fillRect(x, y, width, height);
+
+  strokeRect = (x: number, y: number, width: number, height: number): void => this.ctx.strokeRect(x, y, width, height);
+
+  drawImage = (image: CanvasImageSource, sx: number, sy: number, sWidth: number, sHeight: number, dx: number, dy: number, dWidth: number, dHeight: number): void => {
+    this.ctx.drawImage(image, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+  };
+
+  beginPath = (): void => this.ctx.beginPath();
+
+  moveTo = (x: number, y: number): void => this.ctx.moveTo(x, y);
+
+  lineTo = (x: number, y: number): void => this.ctx.lineTo(x, y);
+
+  rect = (x: number, y: number, width: number, height: number): void => this.ctx.rect(x, y, width, height);
+
+  closePath = (): void => this.ctx.closePath();
+
+  fill = (): void => this.ctx.fill();
+
+  stroke = (): void => this.ctx.stroke();
+
+  clip = (): void => this.ctx.clip();
+
+  fillText = (text: string, x: number, y: number): void => this.ctx.fillText(text, x, y);
+
+  measureText = (text: string): number => this.ctx.measureText(text).width;
+}
@@ -0,0 +1,272 @@
+const DEFAULT_MAX_FRAMES: number = 60;
+const DEFAULT_PRECISION: number = 3;
+const ESTIMATED_CHARACTER_WIDTH: number = 8;
+
+/**
+ * A render backend that records every draw call into a serializable list of
+ * commands, one list per frame. Optionally forwards all calls to another
+ * backend, so a frame can be recorded while it is drawn as usual.
+ */
+export default class RecordingBackend implements RenderBackendable {
+  /**
+   * Recording backends can always be drawn to, even when their target cannot.
+   *
+   * @readonly
+   */
+  readonly isAvailable: boolean = true;
+
+  /**
+   * Completed frames, oldest first. Older frames are dropped once the maximum
+   * number of frames is exceeded.
+   *
+   * @default []
+   */
+  frames: Array<Array<DrawCommand>> = [];
+
+  /**
+   * Whether or not draw calls are currently being recorded.
+   *
+   * @default true
+   */
+  isRecording: boolean = true;
+
+  /**
+   * A backend to forward all calls to, if any.
+   *
+   * @private
+   * @readonly
+   */
+  private readonly target: RenderBackendable | null;
+
+  /**
+   * The maximum number of completed frames to keep.
+   *
+   * @private
+   * @readonly
+   */
+  private readonly maxFrames: number;
+
+  /**
+   * The number of decimal places numeric arguments are rounded to. Keeps
+   * serialized frames stable across floating point noise.
+   *
+   * @private
+   * @readonly
+   */
+  private readonly precision: number;
+
+  /**
+   * Describes an image in a way that can be serialized.
+   *
+   * @private
+   * @readonly
+   */
+  private readonly describeImage: (image: CanvasImageSource) => string;
+
+  /**
+   * Commands recorded since the current frame began.
+   *
+   * @private
+   * @default []
+   */
+  private currentFrame: Array<DrawCommand> = [];
+
+  /**
+   * The alpha set by the most recent setAlpha() call that was not restored.
+   *
+   * @private
+   * @default 1
+   */
+  private alpha: number = 1;
+
+  /**
+   * Alpha values of saved states, most recent last.
+   *
+   * @private
+   * @default []
+   */
+  private alphaStack: Array<number> = [];
+
+  /**
+   * Creates a new RecordingBackend instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: RecordingBackendOptions = {}) {
+    this.target = options.target ?? null;
+    this.maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+    this.precision = options.precision ?? DEFAULT_PRECISION;
+    this.describeImage = options.describeImage ?? ((image: CanvasImageSource) => {
+      const { width, height } = <{ width: unknown, height: unknown }>image;
+      return `image(${width}x${height})`;
+    });
+  }
+
+  /**
+   * Starts recording a new frame, discarding any commands recorded outside
+   * of a frame.
+   */
+  beginFrame = (): void => {
+    this.currentFrame = [];
+    this.target?.beginFrame?.();
+  };
+
+  /**
+   * Completes the current frame and stores its commands.
+   */
+  endFrame = (): void => {
+    this.target?.endFrame?.();
+    if (!this.isRecording) return;
+
+    this.frames.push(this.currentFrame);
+    if (this.frames.length > this.maxFrames) this.frames.shift();
+
+    this.currentFrame = [];
+  };
+
+  /**
+   * Removes all recorded frames and commands.
+   */
+  clear = (): void => {
+    this.frames = [];
+    this.currentFrame = [];
+  };
+
+  /**
+   * Serializes a list of commands into a stable, human-readable JSON string
+   * suitable for golden files.
+   *
+   * @param {Array<DrawCommand>} commands the commands to serialize. Defaults
+   * to the most recently completed frame.
+   *
+   * @returns {string} the serialized commands
+   */
+  serialize = (commands: Array<DrawCommand> = this.lastFrame): string => {
+    return JSON.stringify(commands.map(command => `${command.name}(${command.args.map(arg => JSON.stringify(arg)).join(", ")})`), null, 2) + "\n";
+  };
+
+  save = (): void => {
+    this.alphaStack.push(this.alpha);
+    this.record("save", [], target => target.save());
+  };
+
+  restore = (): void => {
+    this.alpha = this.alphaStack.pop() ?? this.alpha;
+    this.record("restore", [], target => target.restore());
+  };
+
+  setTransform = (a: number, b: number, c: number, d: number, e: number, f: number): void => this.record("setTransform", [a, b, c, d, e, f], target => target.setTransform(a, b, c, d, e, f));
+
+  translate = (x: number, y: number): void => this.record("translate", [x, y], target => target.translate(x, y));
+
+  scale = (x: number, y: number): void => this.record("scale", [x, y], target => target.scale(x, y));
+
+  rotate = (radians: number): void => this.record("rotate", [radians], target => target.rotate(radians));
+
+  setFillStyle = (style: string): void => this.record("setFillStyle", [style], target => target.setFillStyle(style));
+
+  setStrokeStyle = (style: string): void => this.record("setStrokeStyle", [style], target => target.setStrokeStyle(style));
+
+  setLineWidth = (width: number): void => this.record("setLineWidth", [width], target => target.setLineWidth(width));
+
+  setFont = (font: string): void => this.record("setFont", [font], target => target.setFont(font));
+
+  setTextAlign = (align: CanvasTextAlign): void => this.record("setTextAlign", [align], target => target.setTextAlign(align));
+
+  setAlpha = (alpha: number): void => {
+    this.alpha = alpha;
+    this.record("setAlpha", [alpha], target => target.setAlpha(alpha));
+  };
+
+  getAlpha = (): number => this.alpha;
+
+  setCompositeOperation = (operation: GlobalCompositeOperation): void => this.record("setCompositeOperation", [operation], target => target.setCompositeOperation(operation));
+
+  setImageSmoothing = (isEnabled: boolean): void => this.record("setImageSmoothing", [isEnabled], target => target.setImageSmoothing(isEnabled));
+
+  clearRect = (x: number, y: number, width: number, height: number): void => this.record("clearRect", [x, y, width, height], target => target.clearRect(x, y, width, height));
+
+  fillRect = (x: number, y: number, width: number, height: number): void => this.record("fillRect", [x, y, width, height], target => target.fillRect(x, y, width, height));
+
+  strokeRect = (x: number, y: number, width: number, height: number): void => this.record("strokeRect", [x, y, width, height], target => target.strokeRect(x, y, width, height));
+
+  drawImage = (image: CanvasImageSource, sx: number, sy: number, sWidth: number, sHeight: number, dx: number, dy: number, dWidth: number, dHeight: number): void => {
+    this.record("drawImage", [this.describeImage(image), sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight], target => target.drawImage(image, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight));
+  };
+
+  beginPath = (): void => this.record("beginPath", [], target => target.beginPath());
+
+  moveTo = (x: number, y: number): void => this.record("moveTo", [x, y], target => target.moveTo(x, y));
+
+  lineTo = (x: number, y: number): void => this.record("lineTo", [x, y], target => target.lineTo(x, y));
+
+  rect = (x: number, y: number, width: number, height: number): void => this.record("rect", [x, y, width, height], target => target.rect(x, y, width, height));
+
+  closePath = (): void => this.record("closePath", [], target => target.closePath());
+
+  fill = (): void => this.record("fill", [], target => target.fill());
+
+  stroke = (): void => this.record("stroke", [], target => target.stroke());
+
+  clip = (): void => this.record("clip", [], target => target.clip());
+
+  fillText = (text: string, x: number, y: number): void => this.record("fillText", [text, x, y], target => target.fillText(text, x, y));
+
+  /**
+   * Measures text using the target backend if one is available. Otherwise,
+   * estimates a width from the text's length so layouts stay deterministic.
+   *
+   * @param {string} text the text to measure
+   *
+   * @returns {number} the width of the text
+   */
+  measureText = (text: string): number => {
+    if (this.target?.isAvailable) return this.target.measureText(text);
+
+    return text.length * ESTIMATED_CHARACTER_WIDTH;
+  };
+
+  /**
+   * Records a command into the current frame, and forwards the call to the
+   * target backend if it can be drawn to.
+   *
+   * @private
+   *
+   * @param {string} name the name of the command
+   * @param {Array<DrawCommandArgument>} args the arguments of the command
+   * @param forward a callback that performs the command on the target
+   */
+  private record = (name: string, args: Array<DrawCommandArgument>, forward: (target: RenderBackendable) => void): void => {
+    if (this.isRecording) {
+      const factor: number = 10 ** this.precision;
+      this.currentFrame.push({
+        name,
+        args: args.map(arg => typeof arg === "number" ? Math.round(arg * factor) / factor + 0 : arg),
+      });
+    }
+
+    if (this.target?.isAvailable) forward(this.target);
+  };
+
+  /**
+   * The canvas of the target backend, if any.
+   */
+  get canvas(): HTMLCanvasElement | OffscreenCanvas | null {
+    return this.target?.canvas ?? null;
+  }
+
+  /**
+   * The most recently completed frame, or an empty list if no frame has
+   * been completed yet.
+   */
+  get lastFrame(): Array<DrawCommand> {
+    return this.frames[this.frames.length - 1] ?? [];
+  }
+
+  /**
+   * Commands recorded since the current frame began.
+   */
+  get pendingCommands(): Array<DrawCommand> {
+    return this.currentFrame;
+  }
+}
@@ -0,0 +1,59 @@
+interface RenderBackendable {
+  readonly isAvailable: boolean;
+  readonly canvas: HTMLCanvasElement | OffscreenCanvas | null;
+
+  beginFrame?(): void;
+  endFrame?(): void;
+
+  save(): void;
+  restore(): void;
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  translate(x: number, y: number): void;
+  scale(x: number, y: number): void;
+  rotate(radians: number): void;
+
+  setFillStyle(style: string): void;
+  setStrokeStyle(style: string): void;
+  setLineWidth(width: number): void;
+  setFont(font: string): void;
+  setTextAlign(align: CanvasTextAlign): void;
+  setAlpha(alpha: number): void;
+  getAlpha(): number;
+  setCompositeOperation(operation: GlobalCompositeOperation): void;
+  setImageSmoothing(isEnabled: boolean): void;
+
+  clearRect(x: number, y: number, width: number, height: number): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  strokeRect(x: number, y: number, width: number, height: number): void;
+
+  drawImage(image: CanvasImageSource, sx: number, sy: number, sWidth: number, sHeight: number, dx: number, dy: number, dWidth: number, dHeight: number): void;
+
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  closePath(): void;
+  fill(): void;
+  stroke(): void;
+  clip(): void;
+
+  fillText(text: string, x: number, y: number): void;
+  measureText(text: string): number;
+}
+
+type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+type DrawCommandArgument = number | string | boolean;
+
+type DrawCommand = {
+  name: string;
+  args: Array<DrawCommandArgument>;
+};
+
+type RecordingBackendOptions = Partial<{
+  target: RenderBackendable;
+  maxFrames: number;
+  precision: number;
+  describeImage: (image: CanvasImageSource) => string;
+}>;
@@ -17,3 +17,5 @@ interface Vectorable {
   floor(): Vectorable;
   ceil(): Vectorable;
 }
+
+type EasingFunction = (progress: number) => number;
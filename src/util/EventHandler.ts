@@ -12,7 +12,15 @@ export default class EventHandler implements EventHandlerable {
     "onkeyup": [],
     "onresize": [],
     "ontick": [],
-    "onrender": []
+    "onrender": [],
+    "onpanic": [],
+    "onpreloadprogress": [],
+    "onpreloadcomplete": [],
+    "onpreloaderror": [],
+    "onpause": [],
+    "onresume": [],
+    "onblur": [],
+    "onfocus": []
   };
 
   private queuedEventPayloads: { [Type in keyof EngineEventHandlersEventMap]: EngineEventPayload<Type>[] } = {
@@ -25,9 +33,26 @@ export default class EventHandler implements EventHandlerable {
     "onkeyup": [],
     "onresize": [],
     "ontick": [],
-    "onrender": []
+    "onrender": [],
+    "onpanic": [],
+    "onpreloadprogress": [],
+    "onpreloadcomplete": [],
+    "onpreloaderror": [],
+    "onpause": [],
+    "onresume": [],
+    "onblur": [],
+    "onfocus": []
   };
 
+  /**
+   * Whether or not held keys and mouse buttons are released when the page is
+   * hidden or loses focus. Their keyup and mouseup events never arrive once
+   * focus is lost, so they would otherwise stay held.
+   *
+   * @default true
+   */
+  isHeldInputClearedOnBlur: boolean;
+
   private resizeObserver: ResizeObserver;
 
   private canvas: HTMLCanvasElement;
@@ -35,15 +60,15 @@ export default class EventHandler implements EventHandlerable {
   private canvasEventHandlerMap: Map<string, ((event: any) => any) | null> = new Map([
     ["mousedown", (event: any) => {
       event = event as MouseEvent;
-      this.queueEvent("onmousedown", { type: "onmousedown", button: event.button, x: event.offsetX, y: event.offsetY });
+      this.queueEvent("onmousedown", { type: "onmousedown", button: event.button, ...this.mapCanvasPoint(event.offsetX, event.offsetY) });
     }],
     ["mouseup", (event: any) => {
       event = event as MouseEvent;
-      this.queueEvent("onmouseup", { type: "onmouseup", button: event.button, x: event.offsetX, y: event.offsetY });
+      this.queueEvent("onmouseup", { type: "onmouseup", button: event.button, ...this.mapCanvasPoint(event.offsetX, event.offsetY) });
     }],
     ["mousemove", (event: any) => {
       event = event as MouseEvent;
-      this.queueEvent("onmousemove", { type: "onmousemove", button: event.button, x: event.offsetX, y: event.offsetY });
+      this.queueEvent("onmousemove", { type: "onmousemove", button: event.button, ...this.mapCanvasPoint(event.offsetX, event.offsetY) });
     }],
     ["keydown", (event: any) => {
       event = event as KeyboardEvent
@@ -63,12 +88,26 @@ export default class EventHandler implements EventHandlerable {
    */
   private getEnginePauseState: () => boolean = () => false;
 
-  constructor(canvas: HTMLCanvasElement) {
+  /**
+   * A callback that converts a point relative to the canvas from CSS pixels
+   * into the engine's coordinate space. Used for mouse event positions.
+   */
+  private mapCanvasPoint: (x: number, y: number) => { x: number, y: number } = (x, y) => ({ x, y });
+
+  /**
+   * A callback called when the canvas is resized, before onresize is queued.
+   *
+   * @returns The size reported in the onresize payload.
+   */
+  private handleCanvasResize: (width: number, height: number) => { x: number, y: number } = (width, height) => ({ x: width, y: height });
+
+  constructor(canvas: HTMLCanvasElement, options: EventHandlerOptions = {}) {
     this.canvas = canvas;
+    this.isHeldInputClearedOnBlur = options.isHeldInputClearedOnBlur ?? true;
 
     this.resizeObserver = new ResizeObserver((entries: ResizeObserverEntry[]) => {
-      const entry = entries[0];
-      this.queueEvent("onresize", { type: "onresize", width: entry.contentRect.width, height: entry.contentRect.height });
+      const { x, y } = this.handleCanvasResize(entries[0].contentRect.width, entries[0].contentRect.height);
+      this.queueEvent("onresize", { type: "onresize", width: x, height: y });
     });
 
     this.attachEventListeners();
@@ -90,7 +129,10 @@ export default class EventHandler implements EventHandlerable {
   };
 
   unregisterEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: (payload: EngineEventHandlersEventMap[Type]) => any): void {
-    this.callbackRegistry[type].splice(this.callbackRegistry[type].indexOf(callback), 1);
+    const index: number = this.callbackRegistry[type].indexOf(callback);
+    if (index === -1) return;
+
+    this.callbackRegistry[type].splice(index, 1);
   }
 
   queueEvent<Type extends keyof EngineEventHandlersEventMap>(type: Type, payload: EngineEventPayload<Type>, options?: Partial<EngineEventOptions>): void {
@@ -129,6 +171,27 @@ export default class EventHandler implements EventHandlerable {
     }
   }
 
+  /**
+   * Immediately calls all callbacks registered to an event type, bypassing
+   * the queue. Used for engine lifecycle events that must be delivered while
+   * the engine is paused or not yet ticking.
+   *
+   * @param type the type of event to dispatch
+   * @param payload the payload to call each callback with
+   */
+  dispatchEvent<Type extends keyof EngineEventHandlersEventMap>(type: Type, payload: EngineEventPayload<Type>): void {
+    (this.callbackRegistry[type] as EngineEventCallback<Type>[]).slice().forEach((callback) => callback(payload));
+  }
+
+  /**
+   * Releases all held keys and mouse buttons, so no whilekeydown or
+   * whilemousedown events are dispatched until they are pressed again.
+   */
+  clearHeldInput(): void {
+    this.queuedEventPayloads["whilekeydown"] = [];
+    this.queuedEventPayloads["whilemousedown"] = [];
+  }
+
   attachEventListeners(): void {
     this.canvasEventHandlerMap.forEach((handler, type) => {
       switch(type) {
@@ -140,6 +203,10 @@ export default class EventHandler implements EventHandlerable {
           break;
       }
     });
+
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    window.addEventListener("blur", this.handleWindowBlur);
+    window.addEventListener("focus", this.handleWindowFocus);
   }
 
   detachEventListeners(): void {
@@ -154,12 +221,48 @@ export default class EventHandler implements EventHandlerable {
           break;
       }
     });
+
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    window.removeEventListener("blur", this.handleWindowBlur);
+    window.removeEventListener("focus", this.handleWindowFocus);
+  }
+
+  /**
+   * Dispatches onblur or onfocus when the page is hidden or shown.
+   */
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === "hidden") this.blur("visibility");
+    else this.dispatchEvent("onfocus", { type: "onfocus", reason: "visibility" });
+  };
+
+  private handleWindowBlur = (): void => this.blur("focus");
+
+  private handleWindowFocus = (): void => this.dispatchEvent("onfocus", { type: "onfocus", reason: "focus" });
+
+  /**
+   * Releases held input if configured to, and dispatches onblur. Dispatched
+   * immediately, as the engine may already be paused.
+   *
+   * @param reason what caused the loss of focus
+   */
+  private blur(reason: FocusChangeReason): void {
+    if (this.isHeldInputClearedOnBlur) this.clearHeldInput();
+
+    this.dispatchEvent("onblur", { type: "onblur", reason });
   }
 
   setEnginePauseStateCallback(callback: () => boolean): void {
     this.getEnginePauseState = callback;
   }
 
+  setCanvasPointCallback(callback: (x: number, y: number) => { x: number, y: number }): void {
+    this.mapCanvasPoint = callback;
+  }
+
+  setCanvasResizeCallback(callback: (width: number, height: number) => { x: number, y: number }): void {
+    this.handleCanvasResize = callback;
+  }
+
   getRegisteredCallbacks<Type extends keyof EngineEventHandlersEventMap>(type: Type): EngineEventCallback<Type>[] {
     return this.callbackRegistry[type];
   }
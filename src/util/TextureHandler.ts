@@ -1,10 +1,29 @@
 export default class TextureHandler implements TextureHandlerable {
   private textureCache: Map<string, ImageBitmap> = new Map();
 
-  constructor() {}
+  /**
+   * Called when a texture starts loading from a path.
+   */
+  private readonly onLoadStart?: (name: string) => void;
+
+  /**
+   * Called when a texture loaded from a path has been registered.
+   */
+  private readonly onLoad?: (name: string) => void;
+
+  /**
+   * Creates a new TextureHandler instance.
+   *
+   * @param options optional properties to apply at creation
+   */
+  constructor(options: TextureHandlerOptions = {}) {
+    this.onLoadStart = options.onLoadStart;
+    this.onLoad = options.onLoad;
+  }
 
   registerTextureFromPath(name: string, texturePath: string): Promise<ImageBitmap> {
     const image = new Image();
+    this.onLoadStart?.(name);
 
     image.src = texturePath;
     image.crossOrigin = "anonymous";
@@ -14,6 +33,7 @@ export default class TextureHandler implements TextureHandlerable {
         createImageBitmap(image)
           .then((imageBitmap: ImageBitmap) => {
             this.textureCache.set(name, imageBitmap);
+            this.onLoad?.(name);
             resolve(imageBitmap);
           })
           .catch((error: Error) => { reject(error); });
@@ -38,6 +58,15 @@ export default class TextureHandler implements TextureHandlerable {
     this.textureCache.get(name)?.close();
     this.textureCache.delete(name);
   }
+
+  /**
+   * Closes all cached textures and empties the cache.
+   */
+  destroy(): void {
+    this.textureCache.forEach((texture) => texture.close());
+    this.textureCache.clear();
+  }
+
   getRegisteredTexture(name: string): ImageBitmap {
     if(!this.textureCache.has(name)) {
       throw new Error(`Texture ${name} not found in cache`);
@@ -7,6 +7,15 @@ interface KeyEventPayload extends EngineEventable { key: string };
 interface ResizeEventPayload extends EngineEventable { width: number, height: number };
 interface TickEventPayload extends EngineEventable { deltaTime: number };
 interface RenderEventPayload extends EngineEventable { interpolationFactor: number };
+interface PanicEventPayload extends EngineEventable { droppedLag: number, updateCount: number };
+interface PreloadProgressEventPayload extends EngineEventable { loaded: number, total: number, progress: number, name: string };
+interface PreloadCompleteEventPayload extends EngineEventable { loaded: number, total: number, duration: number };
+interface PreloadErrorEventPayload extends EngineEventable { error: unknown, name: string, ID: string };
+interface PauseEventPayload extends EngineEventable { reason: PauseReason };
+interface FocusEventPayload extends EngineEventable { reason: FocusChangeReason };
+
+type FocusChangeReason = "visibility" | "focus";
+type PauseReason = "manual" | FocusChangeReason;
 
 type EngineEventCallback<Type extends keyof EngineEventHandlersEventMap> = (payload: EngineEventHandlersEventMap[Type]) => any;
 type EngineEventPayload<Type extends keyof EngineEventHandlersEventMap> = EngineEventHandlersEventMap[Type];
@@ -22,32 +31,57 @@ interface EngineEventHandlersEventMap {
   "onresize": ResizeEventPayload;
   "ontick": TickEventPayload;
   "onrender": RenderEventPayload;
+  "onpanic": PanicEventPayload;
+  "onpreloadprogress": PreloadProgressEventPayload;
+  "onpreloadcomplete": PreloadCompleteEventPayload;
+  "onpreloaderror": PreloadErrorEventPayload;
+  "onpause": PauseEventPayload;
+  "onresume": PauseEventPayload;
+  "onblur": FocusEventPayload;
+  "onfocus": FocusEventPayload;
 };
 
 interface EngineEventOptions {
   repeat: boolean;
 }
 
+type EventHandlerOptions = Partial<{
+  isHeldInputClearedOnBlur: boolean;
+}>;
+
 interface EventHandlerable {
+  isHeldInputClearedOnBlur: boolean;
+
   registerEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: EngineEventCallback<Type>): void;
   unregisterEventCallback<Type extends keyof EngineEventHandlersEventMap>(type: Type, callback: EngineEventCallback<Type>): void;
 
-  queueEvent<Type extends keyof EngineEventHandlersEventMap>(type: Type, payload: EngineEventPayload<Type>, options: Partial<EngineEventOptions<Type>>): void;
+  queueEvent<Type extends keyof EngineEventHandlersEventMap>(type: Type, payload: EngineEventPayload<Type>, options?: Partial<EngineEventOptions>): void;
 
   dispatchQueue(): void;
+  dispatchEvent<Type extends keyof EngineEventHandlersEventMap>(type: Type, payload: EngineEventPayload<Type>): void;
+  destroy(): void;
+  clearHeldInput(): void;
 
   attachEventListeners(): void;
   detachEventListeners(): void;
   setEnginePauseStateCallback(callback: () => boolean): void;
+  setCanvasPointCallback(callback: (x: number, y: number) => { x: number, y: number }): void;
+  setCanvasResizeCallback(callback: (width: number, height: number) => { x: number, y: number }): void;
 
   getRegisteredCallbacks<Type extends keyof EngineEventHandlersEventMap>(type: Type): EngineEventCallback<Type>[];
   getQueuedPayloads<Type extends keyof EngineEventHandlersEventMap>(type: Type): EngineEventPayload<Type>[];
 }
 
+type TextureHandlerOptions = Partial<{
+  onLoadStart: (name: string) => void;
+  onLoad: (name: string) => void;
+}>;
+
 interface TextureHandlerable {
   registerTextureFromPath(name: string, path: string): Promise<ImageBitmap>;
   registerTextureFromBitmap(name: string, texture: ImageBitmap): ImageBitmap;
   unregisterTexture(name: string): void;
+  destroy(): void;
 
   getRegisteredTexture(name: string): ImageBitmap;
   getTextureCache(): Map<string, ImageBitmap>;
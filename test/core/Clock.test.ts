@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import ManualClock, { RealtimeClock } from "@/core/Clock";
+
+describe("Clock", () => {
+  describe("realtime clock", () => {
+    it("reports the high-res timestamp", () => {
+      const clock = new RealtimeClock();
+      const before = performance.now();
+
+      expect(clock.now()).toBeGreaterThanOrEqual(before);
+    });
+  });
+
+  describe("manual clock", () => {
+    it("starts at the given time", () => {
+      expect(new ManualClock().now()).toBe(0);
+      expect(new ManualClock(100).now()).toBe(100);
+    });
+
+    it("only moves forward when advanced", () => {
+      const clock = new ManualClock();
+
+      clock.advance(16);
+      clock.advance(4);
+
+      expect(clock.now()).toBe(20);
+    });
+
+    it("throws when advanced by a negative amount", () => {
+      const clock = new ManualClock();
+
+      expect(() => clock.advance(-1)).toThrowError(RangeError);
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { createMockEngineInstance } from "../mocks/Engine.mock";
+import Engine from "@/core/Engine";
+import RecordingBackend from "@/render/RecordingBackend";
+import Canvas2DBackend from "@/render/Canvas2DBackend";
+import Vector2D from "@/math/Vector2D";
+import "../util/imageBitmap.mock";
+import testImage from "../util/testTexture.png";
 
 describe("Engine", () => {
   let engine: Engineable, actor: Elementable;
@@ -19,6 +25,13 @@ describe("Engine", () => {
       expect(engine).toBeDefined();
     });
 
+    it("reports the canvas size in logical units", () => {
+      const {engine} = createMockEngineInstance({ resolution: new Vector2D(320, 180), scaleMode: "integer" });
+
+      expect(engine.canvasSize).toMatchObject({ x: 320, y: 180 });
+      expect(engine.viewport.scaleMode).toBe("integer");
+    });
+
     it("should create an instance of Engine with options", () => {
       const {engine} = createMockEngineInstance({
         isDebugEnabled: true,
@@ -49,6 +62,669 @@ describe("Engine", () => {
     });
   });
 
+  describe("preloading", () => {
+    it("reports progress per loaded asset", async () => {
+      const onpreloadprogress = vi.fn();
+      engine.registerEventCallback("onpreloadprogress", onpreloadprogress);
+      actor.preload = () => Promise.all([
+        engine.textureHandler.registerTextureFromPath("first", testImage),
+        engine.textureHandler.registerTextureFromPath("second", testImage),
+      ]);
+
+      await engine.start();
+
+      expect(onpreloadprogress).toHaveBeenCalledTimes(2);
+      expect(onpreloadprogress.mock.calls[0][0]).toMatchObject({ loaded: 1, total: 2, progress: 0.5, name: "first" });
+      expect(onpreloadprogress.mock.calls[1][0]).toMatchObject({ loaded: 2, total: 2, progress: 1, name: "second" });
+    });
+
+    it("reports completion", async () => {
+      const onpreloadcomplete = vi.fn();
+      engine.registerEventCallback("onpreloadcomplete", onpreloadcomplete);
+      actor.preload = () => engine.textureHandler.registerTextureFromPath("texture", testImage);
+
+      await engine.start();
+
+      expect(onpreloadcomplete).toHaveBeenCalledWith(expect.objectContaining({ loaded: 1, total: 1 }));
+    });
+
+    it("counts assets requested as preloading goes on", async () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      scene.preload = () => engine.textureHandler.registerTextureFromPath("background", testImage);
+      actor.preload = () => engine.textureHandler.registerTextureFromPath("player", testImage);
+
+      await engine.start();
+
+      expect(engine.preloadProgress).toEqual({ loaded: 2, total: 2, progress: 1 });
+    });
+
+    it("does not count assets loaded after starting", async () => {
+      const onpreloadprogress = vi.fn();
+      engine.registerEventCallback("onpreloadprogress", onpreloadprogress);
+
+      await engine.start();
+      await engine.textureHandler.registerTextureFromPath("late", testImage);
+
+      expect(onpreloadprogress).not.toHaveBeenCalled();
+      expect(engine.preloadProgress).toEqual({ loaded: 0, total: 0, progress: 1 });
+    });
+
+    it("reports full progress when there is nothing to preload", () => {
+      const engine = new Engine(document.createElement("canvas"), { isHeadless: true });
+
+      expect(engine.preloadProgress.progress).toBe(1);
+    });
+
+    it("preloads the loading screen before any element", async () => {
+      const order: Array<string> = [];
+      const { engine, actor } = createMockEngineInstance({
+        loadingScreen: { preload: async () => { order.push("loading screen"); }, render: () => {} },
+      });
+      actor.preload = async () => { order.push("actor"); };
+
+      await engine.start();
+
+      expect(order).toEqual(["loading screen", "actor"]);
+    });
+
+    it("displays the loading screen for its minimum duration", async () => {
+      const loadingScreen = { render: vi.fn() };
+      const { engine, actor } = createMockEngineInstance({
+        loadingScreen,
+        minimumLoadingDuration: 100,
+        renderBackend: new RecordingBackend(),
+      });
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.step();
+
+      expect(loadingScreen.render).toHaveBeenCalledWith(engine.renderer, engine.preloadProgress, engine.canvasSize);
+      expect(tickSpy).not.toHaveBeenCalled();
+
+      engine.advance(100);
+      engine.step();
+
+      expect(tickSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe("stopping", () => {
+    it("cancels the update loop", async () => {
+      const { engine } = createMockEngineInstance({ isHeadless: false });
+      const cancelSpy = vi.spyOn(window, "cancelAnimationFrame");
+
+      await engine.start();
+      engine.stop();
+
+      expect(cancelSpy).toHaveBeenCalled();
+      expect(engine.isStarted).toBe(false);
+      expect(engine.isPaused).toBe(true);
+    });
+
+    it("aborts a start that is still preloading", async () => {
+      const { engine, actor } = createMockEngineInstance({ isHeadless: false });
+      const cancelSpy = vi.spyOn(window, "cancelAnimationFrame");
+      const onStart = vi.fn();
+      let finishPreload: () => void = () => {};
+      actor.preload = () => new Promise<void>(resolve => finishPreload = resolve);
+      engine.use({ name: "test", onStart });
+
+      const started = engine.start();
+      await new Promise(resolve => setTimeout(resolve));
+      await expect(engine.start()).rejects.toThrowError();
+
+      engine.destroy();
+      finishPreload();
+      await started;
+
+      expect(cancelSpy).toHaveBeenCalled();
+      expect(engine.isStarted).toBe(false);
+      expect(engine.isPaused).toBe(true);
+      expect(onStart).not.toHaveBeenCalled();
+    });
+
+    it("unregisters internal event callbacks", async () => {
+      await engine.start();
+      engine.stop();
+
+      expect(engine.eventHandler.getRegisteredCallbacks("onresize").length).toBe(0);
+      expect(engine.eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(0);
+    });
+
+    it("can be started again without preloading again", async () => {
+      const preload = vi.fn(() => Promise.resolve());
+      actor.preload = preload;
+
+      await engine.start();
+      engine.stop();
+      await engine.start();
+
+      expect(preload).toHaveBeenCalledTimes(1);
+      expect(engine.isStarted).toBe(true);
+      expect(engine.eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(1);
+    });
+  });
+
+  describe("destroying", () => {
+    it("releases event listeners and callbacks", async () => {
+      const destroySpy = vi.spyOn(engine.eventHandler, "destroy");
+      engine.registerEventCallback("onkeydown", () => {});
+
+      await engine.start();
+      engine.destroy();
+
+      expect(destroySpy).toHaveBeenCalled();
+      expect(engine.eventHandler.getRegisteredCallbacks("onkeydown").length).toBe(0);
+    });
+
+    it("closes cached textures", () => {
+      const bitmap = { close: vi.fn() } as unknown as ImageBitmap;
+      engine.textureHandler.registerTextureFromBitmap("test", bitmap);
+
+      engine.destroy();
+
+      expect(bitmap.close).toHaveBeenCalled();
+      expect(engine.textureHandler.getTextureCache().size).toBe(0);
+    });
+
+    it("removes scenes and GUI sections", () => {
+      engine.destroy();
+
+      expect(engine.scenes.size).toBe(0);
+      expect(engine.parameterGUI.baseSection.subsections.length).toBe(0);
+    });
+
+    it("disposes scenes and their actors before calling onDestroy", () => {
+      const calls: Array<string> = [];
+      vi.spyOn(actor, "onDestroy").mockImplementation(() => calls.push("actor"));
+      engine.use({ name: "test", onSceneRemove: () => calls.push("scene"), onDestroy: () => calls.push("plugin") });
+
+      engine.destroy();
+
+      expect(calls).toEqual(["actor", "scene", "plugin"]);
+    });
+
+    it("cannot be started again", async () => {
+      engine.destroy();
+
+      await expect(engine.start()).rejects.toThrowError();
+    });
+  });
+
+  describe("headless mode", () => {
+    it("does not request animation frames", async () => {
+      const rafSpy = vi.spyOn(window, "requestAnimationFrame");
+
+      await engine.start();
+
+      expect(rafSpy).not.toHaveBeenCalled();
+    });
+
+    it("defaults to a manual clock", () => {
+      expect(engine.clock.now()).toBe(0);
+      expect(engine.clock.advance).toBeDefined();
+    });
+
+    it("runs an exact number of ticks when stepped", async () => {
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.step(5);
+
+      expect(tickSpy).toHaveBeenCalledTimes(5);
+      expect(engine.tickCount).toBe(5);
+      expect(engine.clock.now()).toBeCloseTo(5 * 1000 / 60);
+    });
+
+    it("dispatches queued events once per tick", async () => {
+      const callback = vi.fn();
+      engine.registerEventCallback("onkeydown", callback);
+
+      await engine.start();
+      engine.eventHandler.queueEvent("onkeydown", { type: "onkeydown", key: "E" });
+      engine.step(3);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ type: "onkeydown", key: "E" });
+    });
+
+    it("runs as many ticks as fit into the advanced time", async () => {
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.advance(40);
+      expect(tickSpy).toHaveBeenCalledTimes(2);
+
+      // the remaining lag carries over into the next advance
+      engine.advance(12);
+      expect(tickSpy).toHaveBeenCalledTimes(3);
+      expect(engine.engineRuntimeMilliseconds).toBe(52);
+    });
+
+    it("disposes destroyed actors of scenes that do not tick", async () => {
+      const disposeSpy = vi.spyOn(actor, "dispose");
+      Array.from(engine.scenes.values())[0].isTickEnabled = false;
+
+      await engine.start();
+      actor.destroy();
+      engine.step();
+
+      expect(disposeSpy).toHaveBeenCalledOnce();
+    });
+
+    it("disposes destroyed scenes when stepped", async () => {
+      const scene = Array.from(engine.scenes.values())[0];
+      const disposeSpy = vi.spyOn(scene, "dispose");
+
+      await engine.start();
+      scene.destroy();
+      engine.step();
+
+      expect(disposeSpy).toHaveBeenCalledOnce();
+      expect(engine.scenes.size).toBe(0);
+    });
+
+    it("does not tick while paused", async () => {
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.isPaused = true;
+      engine.step(2);
+      engine.advance(100);
+
+      expect(tickSpy).not.toHaveBeenCalled();
+    });
+
+    it("throws when stepped before starting", () => {
+      expect(() => engine.step()).toThrowError();
+      expect(() => engine.advance(16)).toThrowError();
+    });
+
+    it("throws when stepping an engine that is not headless", async () => {
+      const { engine } = createMockEngineInstance({ isHeadless: false });
+
+      expect(() => engine.step()).toThrowError();
+    });
+  });
+
+  describe("timestep", () => {
+    it("ticks at the configured tick rate", async () => {
+      const { engine, actor } = createMockEngineInstance({ tickRate: 120 });
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.advance(51);
+
+      expect(engine.tickRate).toBe(120);
+      expect(tickSpy).toHaveBeenCalledTimes(6);
+    });
+
+    it("throws on a non-positive tick rate", () => {
+      expect(() => createMockEngineInstance({ tickRate: 0 })).toThrowError(RangeError);
+    });
+
+    it("consumes all lag in bounded ticks in semi-fixed mode", async () => {
+      const { engine, actor } = createMockEngineInstance({ timestepMode: "semi-fixed" });
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.advance(40);
+
+      expect(tickSpy).toHaveBeenCalledTimes(3);
+      expect(tickSpy.mock.calls[0][0]).toBeCloseTo(1000 / 60);
+      expect(tickSpy.mock.calls[2][0]).toBeCloseTo(40 - 2000 / 60);
+    });
+
+    it("ticks once per frame with the frame delta in variable mode", async () => {
+      const { engine, actor } = createMockEngineInstance({ timestepMode: "variable" });
+      const tickSpy = vi.spyOn(actor, "tick");
+      const ontick = vi.fn();
+      engine.registerEventCallback("ontick", ontick);
+
+      await engine.start();
+      engine.advance(40);
+
+      expect(tickSpy).toHaveBeenCalledTimes(1);
+      expect(tickSpy).toHaveBeenCalledWith(40);
+      expect(ontick).toHaveBeenCalledWith({ type: "ontick", deltaTime: 40 });
+    });
+  });
+
+  describe("time scale", () => {
+    it("scales the delta time of ticks and ontick payloads", async () => {
+      const { engine, actor } = createMockEngineInstance({ timeScale: 0.5 });
+      const tickSpy = vi.spyOn(actor, "tick");
+      const ontick = vi.fn();
+      engine.registerEventCallback("ontick", ontick);
+
+      await engine.start();
+      engine.step();
+
+      expect(tickSpy.mock.calls[0][0]).toBeCloseTo(500 / 60);
+      expect(ontick.mock.calls[0][0].deltaTime).toBeCloseTo(500 / 60);
+    });
+
+    it("keeps dispatching events when frozen", async () => {
+      const tickSpy = vi.spyOn(actor, "tick");
+      const onkeydown = vi.fn();
+      engine.registerEventCallback("onkeydown", onkeydown);
+
+      await engine.start();
+      engine.timeScale = 0;
+      engine.eventHandler.queueEvent("onkeydown", { type: "onkeydown", key: "E" });
+      engine.step();
+
+      expect(onkeydown).toHaveBeenCalled();
+      expect(tickSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("panicking", () => {
+    it("discards all lag by default and emits onpanic", async () => {
+      const { engine, actor } = createMockEngineInstance({ maxUpdatesPerFrame: 2 });
+      const tickSpy = vi.spyOn(actor, "tick");
+      const onpanic = vi.fn();
+      engine.registerEventCallback("onpanic", onpanic);
+
+      await engine.start();
+      engine.advance(110);
+      expect(tickSpy).toHaveBeenCalledTimes(2);
+
+      engine.step();
+      expect(onpanic).toHaveBeenCalledTimes(1);
+      expect(onpanic.mock.calls[0][0].droppedLag).toBeCloseTo(110 - 2000 / 60);
+      expect(onpanic.mock.calls[0][0].updateCount).toBe(2);
+    });
+
+    it("keeps the fractional remainder when clamping", async () => {
+      const { engine } = createMockEngineInstance({ maxUpdatesPerFrame: 2, panicStrategy: "clamp" });
+      const onpanic = vi.fn();
+      engine.registerEventCallback("onpanic", onpanic);
+
+      await engine.start();
+      engine.advance(110);
+      engine.step();
+
+      expect(onpanic.mock.calls[0][0].droppedLag).toBeCloseTo(4000 / 60);
+    });
+
+    it("carries lag over into the next frame", async () => {
+      const { engine, actor } = createMockEngineInstance({ maxUpdatesPerFrame: 2, panicStrategy: "carry" });
+      const tickSpy = vi.spyOn(actor, "tick");
+      const onpanic = vi.fn();
+      engine.registerEventCallback("onpanic", onpanic);
+
+      await engine.start();
+      engine.advance(70);
+      engine.advance(0);
+
+      expect(tickSpy).toHaveBeenCalledTimes(4);
+      expect(onpanic.mock.calls[0][0].droppedLag).toBe(0);
+    });
+  });
+
+  describe("pausing", () => {
+    it("dispatches onpause and onresume", async () => {
+      const onpause = vi.fn(), onresume = vi.fn();
+      engine.registerEventCallback("onpause", onpause);
+      engine.registerEventCallback("onresume", onresume);
+
+      await engine.start();
+      engine.pause();
+      engine.pause();
+      engine.resume();
+
+      expect(engine.isPaused).toBe(false);
+      expect(onpause).toHaveBeenCalledTimes(1);
+      expect(onpause).toHaveBeenCalledWith({ type: "onpause", reason: "manual" });
+      expect(onresume).toHaveBeenCalledWith({ type: "onresume", reason: "manual" });
+    });
+
+    it("does not tick while paused", async () => {
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.pause();
+      engine.step(3);
+
+      expect(tickSpy).not.toHaveBeenCalled();
+    });
+
+    it("pauses while the page is hidden and resumes when it is shown", async () => {
+      const visibilitySpy = vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+
+      await engine.start();
+      document.dispatchEvent(new Event("visibilitychange"));
+      expect(engine.isPaused).toBe(true);
+
+      visibilitySpy.mockReturnValue("visible");
+      document.dispatchEvent(new Event("visibilitychange"));
+      expect(engine.isPaused).toBe(false);
+
+      visibilitySpy.mockRestore();
+      engine.destroy();
+    });
+
+    it("only pauses on window blur when configured to", async () => {
+      await engine.start();
+      window.dispatchEvent(new Event("blur"));
+      expect(engine.isPaused).toBe(false);
+      engine.destroy();
+
+      const {engine: blurEngine} = createMockEngineInstance({ autoPause: "blur" });
+      await blurEngine.start();
+      window.dispatchEvent(new Event("blur"));
+      expect(blurEngine.isPaused).toBe(true);
+
+      window.dispatchEvent(new Event("focus"));
+      expect(blurEngine.isPaused).toBe(false);
+      blurEngine.destroy();
+    });
+
+    it("does not resume a manually paused engine on focus", async () => {
+      const {engine} = createMockEngineInstance({ autoPause: "blur" });
+
+      await engine.start();
+      engine.pause();
+      window.dispatchEvent(new Event("blur"));
+      window.dispatchEvent(new Event("focus"));
+
+      expect(engine.isPaused).toBe(true);
+      engine.destroy();
+    });
+
+    it("does not run catch-up ticks after resuming", async () => {
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      await engine.start();
+      engine.pause();
+      engine.advance(1000);
+      engine.resume();
+      engine.advance(1000 / 60);
+
+      expect(tickSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("capturing", () => {
+    /**
+     * Creates an engine whose recording backend draws to the engine's canvas.
+     * @param options optional arguments to pass to the engine
+     * @returns the engine and its recording backend
+     */
+    const createCapturingEngine = (options: EngineOptions = {}) => {
+      const canvas = document.createElement("canvas");
+      const renderer = new RecordingBackend({ target: Canvas2DBackend.fromCanvas(canvas) });
+
+      return { ...createMockEngineInstance({ renderBackend: renderer, ...options }, canvas), renderer };
+    };
+
+    it("encodes the current frame", async () => {
+      const {engine} = createCapturingEngine();
+      const blob = new Blob([], { type: "image/jpeg" });
+      const toBlobSpy = vi.spyOn(engine.canvasElement, "toBlob").mockImplementation(callback => callback(blob));
+
+      await engine.start();
+      engine.step();
+
+      expect(await engine.captureFrame({ type: "image/jpeg", quality: 0.5 })).toBe(blob);
+      expect(toBlobSpy).toHaveBeenCalledWith(expect.any(Function), "image/jpeg", 0.5);
+    });
+
+    it("rejects if the frame could not be encoded", async () => {
+      const {engine} = createCapturingEngine();
+      vi.spyOn(engine.canvasElement, "toBlob").mockImplementation(callback => callback(null));
+
+      await expect(engine.captureFrame()).rejects.toThrowError();
+    });
+
+    it("can redraw the frame without the parameter GUI", async () => {
+      const {engine, renderer} = createCapturingEngine({ isDebugEnabled: true });
+      vi.spyOn(engine.canvasElement, "toBlob").mockImplementation(callback => callback(new Blob()));
+      const guiSpy = vi.spyOn(engine.parameterGUI, "render");
+
+      await engine.start();
+      engine.step();
+      await engine.captureFrame();
+      expect(guiSpy).toHaveBeenCalledTimes(1);
+
+      await engine.captureFrame({ isGUIIncluded: false });
+      expect(guiSpy).toHaveBeenCalledTimes(1);
+      expect(renderer.frames.length).toBe(2);
+    });
+
+    it("redraws without render hooks, events or profiling", async () => {
+      const {engine} = createCapturingEngine({ isDebugEnabled: true });
+      vi.spyOn(engine.canvasElement, "toBlob").mockImplementation(callback => callback(new Blob()));
+      const plugin: Pluginable = { name: "test", beforeRender: vi.fn(), afterRender: vi.fn() };
+      engine.use(plugin);
+
+      await engine.start();
+      engine.step();
+      const queueSpy = vi.spyOn(engine.eventHandler, "queueEvent");
+      const measureSpy = vi.spyOn(engine.profiler, "measure");
+      await engine.captureFrame({ isGUIIncluded: false });
+
+      expect(plugin.beforeRender).toHaveBeenCalledTimes(1);
+      expect(plugin.afterRender).toHaveBeenCalledTimes(1);
+      expect(queueSpy).not.toHaveBeenCalled();
+      expect(measureSpy).not.toHaveBeenCalled();
+      expect(engine.profiler.isEnabled).toBe(true);
+    });
+
+    it("encodes frames drawn to an OffscreenCanvas", async () => {
+      const {engine, renderer} = createCapturingEngine();
+      const blob = new Blob([], { type: "image/webp" });
+      const offscreenCanvas = <OffscreenCanvas & BlobConvertible><unknown>{ convertToBlob: vi.fn(() => Promise.resolve(blob)) };
+      vi.spyOn(renderer, "canvas", "get").mockReturnValue(offscreenCanvas);
+
+      expect(await engine.captureFrame({ type: "image/webp", quality: 0.8 })).toBe(blob);
+      expect(offscreenCanvas.convertToBlob).toHaveBeenCalledWith({ type: "image/webp", quality: 0.8 });
+    });
+
+    it("rejects without an available render backend", async () => {
+      await expect(engine.captureFrame()).rejects.toThrowError();
+      await expect(engine.captureBitmap()).rejects.toThrowError();
+    });
+
+    it("rejects if the render backend does not draw to a canvas", async () => {
+      const {engine} = createMockEngineInstance({ renderBackend: new RecordingBackend() });
+
+      await expect(engine.captureFrame()).rejects.toThrowError();
+      await expect(engine.captureBitmap()).rejects.toThrowError();
+    });
+  });
+
+  describe("plugins", () => {
+    it("installs plugins and can look them up by name", () => {
+      const plugin: Pluginable = { name: "test", install: vi.fn() };
+
+      expect(engine.use(plugin)).toBe(engine);
+      expect(plugin.install).toHaveBeenCalledWith(engine);
+      expect(engine.getPlugin("test")).toBe(plugin);
+      expect(engine.getPlugin("missing")).toBeUndefined();
+    });
+
+    it("throws when installing a plugin with a duplicate name", () => {
+      engine.use({ name: "test" });
+
+      expect(() => engine.use({ name: "test" })).toThrowError();
+    });
+
+    it("adds a GUI section for plugins that provide one", () => {
+      const createGUISection = vi.fn();
+      engine.use({ name: "test", createGUISection });
+
+      const section = engine.parameterGUI.baseSection.subsections.find(subsection => subsection.name === "test");
+      expect(section).toBeDefined();
+      expect(createGUISection).toHaveBeenCalledWith(section, engine);
+    });
+
+    it("calls onStart on start, or immediately if already started", async () => {
+      const early: Pluginable = { name: "early", onStart: vi.fn() };
+      const late: Pluginable = { name: "late", onStart: vi.fn() };
+      engine.use(early);
+
+      await engine.start();
+      expect(early.onStart).toHaveBeenCalledTimes(1);
+
+      engine.use(late);
+      expect(late.onStart).toHaveBeenCalledTimes(1);
+    });
+
+    it("calls tick hooks around each tick", async () => {
+      const calls: Array<string> = [];
+      engine.use({ name: "test", beforeTick: () => calls.push("before"), afterTick: () => calls.push("after") });
+      vi.spyOn(actor, "tick").mockImplementation(() => calls.push("tick"));
+
+      await engine.start();
+      engine.step(2);
+
+      expect(calls).toEqual(["before", "tick", "after", "before", "tick", "after"]);
+    });
+
+    it("calls render hooks around scene rendering in an isolated render state", async () => {
+      const renderer = new RecordingBackend();
+      const {engine} = createMockEngineInstance({ renderBackend: renderer });
+      engine.use({
+        name: "test",
+        beforeRender: (_, renderer) => renderer.fillText("before", 0, 0),
+        afterRender: (_, renderer) => renderer.fillText("after", 0, 0),
+      });
+
+      await engine.start();
+      engine.step();
+
+      const names = renderer.lastFrame.map(command => command.args[0] === "before" || command.args[0] === "after" ? command.args[0] : command.name);
+      expect(names.slice(names.indexOf("before") - 1, names.indexOf("before") + 2)).toEqual(["save", "before", "restore"]);
+      expect(names.indexOf("after")).toBeGreaterThan(names.indexOf("before"));
+    });
+
+    it("notifies plugins when scenes are added and removed", () => {
+      const plugin: Pluginable = { name: "test", onSceneAdd: vi.fn(), onSceneRemove: vi.fn() };
+      engine.use(plugin);
+      const scene = Array.from(engine.scenes.values())[0];
+
+      expect(engine.removeScene(scene)).toBe(true);
+      expect(engine.removeScene(scene)).toBe(false);
+      engine.addScene(scene);
+
+      expect(plugin.onSceneRemove).toHaveBeenCalledTimes(1);
+      expect(plugin.onSceneAdd).toHaveBeenCalledWith(engine, scene);
+    });
+
+    it("calls onDestroy and removes plugins when destroyed", () => {
+      const plugin: Pluginable = { name: "test", onDestroy: vi.fn() };
+      engine.use(plugin);
+
+      engine.destroy();
+
+      expect(plugin.onDestroy).toHaveBeenCalledWith(engine);
+      expect(engine.getPlugin("test")).toBeUndefined();
+    });
+  });
+
   describe("event callbacks", () => {
     it("can be registered", () => {
       engine.registerEventCallback("onmousedown", () => {});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+import FrameRecorder from "@/core/FrameRecorder";
+import RecordingBackend from "@/render/RecordingBackend";
+import Canvas2DBackend from "@/render/Canvas2DBackend";
+import Engine from "@/core/Engine";
+
+describe("FrameRecorder", () => {
+  let engine: Engine;
+
+  beforeEach(async () => {
+    const canvas = document.createElement("canvas");
+    engine = createMockEngineInstance({ renderBackend: new RecordingBackend({ target: Canvas2DBackend.fromCanvas(canvas) }) }, canvas).engine;
+    vi.spyOn(engine.canvasElement, "toBlob").mockImplementation(callback => callback(new Blob([], { type: "image/png" })));
+
+    await engine.start();
+  });
+
+  it("steps the engine between captured frames", async () => {
+    const recorder = new FrameRecorder(engine, { ticksPerFrame: 2 });
+
+    const frames = await recorder.record(3);
+
+    expect(frames.length).toBe(3);
+    expect(engine.tickCount).toBe(6);
+    expect(recorder.duration).toBeCloseTo(100);
+  });
+
+  it("accumulates frames across recordings until cleared", async () => {
+    const recorder = new FrameRecorder(engine);
+
+    await recorder.record(2);
+    await recorder.record(1);
+    expect(recorder.frames.length).toBe(3);
+
+    recorder.clear();
+    expect(recorder.frames.length).toBe(0);
+  });
+
+  it("passes capture options to each capture", async () => {
+    const captureSpy = vi.spyOn(engine, "captureFrame");
+    const recorder = new FrameRecorder(engine, { type: "image/webp", isGUIIncluded: false });
+
+    await recorder.record(1);
+
+    expect(captureSpy).toHaveBeenCalledWith({ type: "image/webp", quality: undefined, isGUIIncluded: false });
+  });
+
+  it("converts frames into a numbered image sequence", async () => {
+    const recorder = new FrameRecorder(engine);
+
+    await recorder.record(2);
+    const files = recorder.toFiles("capture");
+
+    expect(files.map(file => file.name)).toEqual(["capture-0001.png", "capture-0002.png"]);
+  });
+
+  it("throws on invalid ticks per frame", () => {
+    expect(() => new FrameRecorder(engine, { ticksPerFrame: 0 })).toThrowError(RangeError);
+    expect(() => new FrameRecorder(engine, { ticksPerFrame: 1.5 })).toThrowError(RangeError);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from "vitest";
+import LoadingScreen from "@/core/LoadingScreen";
+import RecordingBackend from "@/render/RecordingBackend";
+import Vector2D from "@/math/Vector2D";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+/**
+ * Renders a single loading screen frame into a recording backend.
+ * @returns the recorded commands
+ */
+const renderFrame = (screen: LoadingScreen, progress: number): Array<DrawCommand> => {
+  const backend = new RecordingBackend();
+
+  backend.beginFrame();
+  screen.render(backend, { loaded: progress * 4, total: 4, progress }, new Vector2D(800, 600));
+  backend.endFrame();
+
+  return backend.lastFrame;
+};
+
+describe("LoadingScreen", () => {
+  it("has default properties", () => {
+    const screen = new LoadingScreen();
+
+    expect(screen.background).toBe("black");
+    expect(screen.foreground).toBe("white");
+    expect(screen.text).toBe("LOADING...");
+    expect(screen.logoPath).toBeNull();
+  });
+
+  it("draws a progress bar proportional to progress", () => {
+    const commands = renderFrame(new LoadingScreen(), 0.25);
+
+    expect(commands).toContainEqual({ name: "fillRect", args: [200, 332, 100, 16] });
+  });
+
+  it("draws custom text and colors", () => {
+    const commands = renderFrame(new LoadingScreen({ background: "#123456", text: "STUDIO" }), 1);
+
+    expect(commands).toContainEqual({ name: "setFillStyle", args: ["#123456"] });
+    expect(commands).toContainEqual({ name: "fillText", args: ["STUDIO", 400, 300] });
+  });
+
+  it("preloads its logo through the engine's texture handler", async () => {
+    const { engine } = createMockEngineInstance();
+    const bitmap = (<unknown>{ width: 64, height: 32 }) as ImageBitmap;
+    const registerSpy = vi.spyOn(engine.textureHandler, "registerTextureFromPath").mockResolvedValue(bitmap);
+    const screen = new LoadingScreen({ logoPath: "logo.png" });
+
+    await screen.preload(engine);
+
+    expect(registerSpy).toHaveBeenCalledWith(expect.any(String), "logo.png");
+    expect(renderFrame(screen, 0)).toContainEqual({ name: "drawImage", args: ["image(64x32)", 0, 0, 64, 32, 368, 220, 64, 32] });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from "vitest";
+import Profiler from "@/core/Profiler";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+/**
+ * Creates a profiler whose time only moves when a measured callback says so.
+ * @returns the profiler and a function to move time forward
+ */
+const createSteppedProfiler = (historySize: number = 120) => {
+  let time = 0;
+  const profiler = new Profiler({ isEnabled: true, historySize, now: () => time });
+
+  return { profiler, elapse: (milliseconds: number) => time += milliseconds };
+};
+
+describe("Profiler", () => {
+  it("is disabled by default", () => {
+    const profiler = new Profiler();
+    const callback = vi.fn(() => 42);
+
+    expect(profiler.measure("test", callback)).toBe(42);
+    profiler.endFrame(16);
+
+    expect(callback).toHaveBeenCalled();
+    expect(profiler.labels.length).toBe(0);
+  });
+
+  describe("measuring", () => {
+    it("sums measurements of a label within a frame", () => {
+      const { profiler, elapse } = createSteppedProfiler();
+
+      profiler.measure("tick", () => elapse(2));
+      profiler.measure("tick", () => elapse(3));
+      profiler.endFrame(16);
+
+      expect(profiler.getHistory("tick")).toEqual([5]);
+    });
+
+    it("records 0 for labels not measured in a frame", () => {
+      const { profiler, elapse } = createSteppedProfiler();
+
+      profiler.measure("tick", () => elapse(2));
+      profiler.endFrame(16);
+      profiler.endFrame(16);
+
+      expect(profiler.getHistory("tick")).toEqual([2, 0]);
+    });
+
+    it("keeps a rolling history", () => {
+      const { profiler, elapse } = createSteppedProfiler(2);
+
+      [1, 2, 3].forEach(time => {
+        profiler.measure("tick", () => elapse(time));
+        profiler.endFrame(time * 10);
+      });
+
+      expect(profiler.getHistory("tick")).toEqual([2, 3]);
+      expect(profiler.frameTimeHistory).toEqual([20, 30]);
+    });
+  });
+
+  describe("statistics", () => {
+    it("averages and maxes label history", () => {
+      const { profiler, elapse } = createSteppedProfiler();
+
+      [2, 4, 6].forEach(time => {
+        profiler.measure("render", () => elapse(time));
+        profiler.endFrame(16);
+      });
+
+      expect(profiler.getAverage("render")).toBe(4);
+      expect(profiler.getMax("render")).toBe(6);
+      expect(profiler.getAverage("missing")).toBe(0);
+    });
+
+    it("averages FPS over frame times", () => {
+      const { profiler } = createSteppedProfiler();
+
+      profiler.endFrame(10);
+      profiler.endFrame(30);
+
+      expect(profiler.averageFrameTime).toBe(20);
+      expect(profiler.averageFPS).toBe(50);
+      expect(profiler.FPSHistory).toEqual([100, 1000 / 30]);
+    });
+
+    it("sorts samples by average time", () => {
+      const { profiler, elapse } = createSteppedProfiler();
+
+      profiler.measure("cheap", () => elapse(1));
+      profiler.measure("expensive", () => elapse(10));
+      profiler.endFrame(16);
+
+      expect(profiler.getSamples().map(sample => sample.label)).toEqual(["expensive", "cheap"]);
+    });
+  });
+
+  it("can remove a label", () => {
+    const { profiler, elapse } = createSteppedProfiler();
+
+    profiler.measure("tick", () => elapse(1));
+    profiler.measure("render", () => elapse(1));
+    profiler.endFrame(16);
+
+    expect(profiler.removeLabel("tick")).toBe(true);
+    expect(profiler.removeLabel("tick")).toBe(false);
+    expect(profiler.labels).toEqual(["render"]);
+  });
+
+  it("can be reset", () => {
+    const { profiler, elapse } = createSteppedProfiler();
+
+    profiler.measure("tick", () => elapse(1));
+    profiler.endFrame(16);
+    profiler.reset();
+
+    expect(profiler.labels.length).toBe(0);
+    expect(profiler.frameTimeHistory.length).toBe(0);
+  });
+
+  describe("engine integration", () => {
+    it("profiles events, scenes and actors", async () => {
+      const { engine } = createMockEngineInstance({ isProfilerEnabled: true });
+
+      await engine.start();
+      engine.step(2);
+
+      expect(engine.profiler.labels).toEqual(expect.arrayContaining([
+        "events",
+        "tick",
+        "tick:testScene",
+        "tick:testScene/testActor",
+      ]));
+      expect(engine.profiler.frameTimeHistory.length).toBe(1);
+    });
+
+    it("adds a GUI parameter per profiled label", async () => {
+      const { engine } = createMockEngineInstance({ isProfilerEnabled: true });
+
+      await engine.start();
+      engine.step();
+
+      const section = engine.parameterGUI.baseSection.getSubsectionByTitle("Profiler");
+      expect(section.parameters.has("tick:testScene/testActor")).toBe(true);
+      expect(section.graphs.has("FPS")).toBe(true);
+    });
+
+    it("drops the labels of destroyed actors", async () => {
+      const { engine, actor } = createMockEngineInstance({ isProfilerEnabled: true });
+
+      await engine.start();
+      engine.step();
+      actor.destroy();
+      engine.step();
+
+      const section = engine.parameterGUI.baseSection.getSubsectionByTitle("Profiler");
+      expect(engine.profiler.labels).not.toContain("tick:testScene/testActor");
+      expect(section.parameters.has("tick:testScene/testActor")).toBe(false);
+    });
+
+    it("is enabled along with the debug overlay", () => {
+      const { engine } = createMockEngineInstance({ isDebugEnabled: true });
+
+      expect(engine.profiler.isEnabled).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+import Scene from "@/elements/Scene";
+import Engine from "@/core/Engine";
+import Camera from "@/core/Camera";
+import { FadeTransition } from "@/core/Transition";
+import RecordingBackend from "@/render/RecordingBackend";
+import Actor from "@/elements/Actor";
+
+/**
+ * Waits for pending preloads and stack changes to settle.
+ */
+const flushPromises = (): Promise<void> => new Promise(resolve => setTimeout(resolve));
+
+describe("SceneManager", () => {
+  let engine: Engine, camera: Camera, gameplay: Scene, menu: Scene;
+
+  beforeEach(() => {
+    const instances = createMockEngineInstance();
+    engine = instances.engine;
+    camera = instances.camera;
+    gameplay = instances.scene;
+    menu = new Scene("menu", engine, camera);
+  });
+
+  it("is not in use until a scene is pushed", async () => {
+    const tickSpy = vi.spyOn(menu, "tick");
+
+    await engine.start();
+    engine.step();
+
+    expect(engine.sceneManager.isInUse).toBe(false);
+    expect(tickSpy).toHaveBeenCalled();
+  });
+
+  it("only ticks the top scene", async () => {
+    const gameplaySpy = vi.spyOn(gameplay, "tick");
+    const menuSpy = vi.spyOn(menu, "tick");
+
+    engine.sceneManager.push(gameplay);
+    engine.sceneManager.push(menu);
+    await engine.start();
+    engine.step();
+
+    expect(engine.sceneManager.stack).toEqual([gameplay, menu]);
+    expect(engine.sceneManager.top).toBe(menu);
+    expect(gameplaySpy).not.toHaveBeenCalled();
+    expect(menuSpy).toHaveBeenCalled();
+  });
+
+  it("pops and replaces scenes", async () => {
+    engine.sceneManager.push(gameplay);
+    engine.sceneManager.push(menu);
+
+    expect(await engine.sceneManager.pop()).toBe(menu);
+    expect(await engine.sceneManager.replace(menu)).toBe(gameplay);
+    expect(engine.sceneManager.stack).toEqual([menu]);
+    expect(await engine.sceneManager.pop()).toBe(menu);
+    expect(await engine.sceneManager.pop()).toBeUndefined();
+  });
+
+  it("renders scenes beneath overlays", () => {
+    engine.sceneManager.push(gameplay);
+    engine.sceneManager.push(menu, { isOverlay: true });
+
+    expect(engine.sceneManager.renderedScenes).toEqual([gameplay, menu]);
+    expect(engine.sceneManager.tickedScenes).toEqual([menu]);
+  });
+
+  it("ticks scenes beneath overlays that allow it", () => {
+    engine.sceneManager.push(gameplay);
+    engine.sceneManager.push(menu, { isOverlay: true, isUnderlyingTickEnabled: true });
+
+    expect(engine.sceneManager.tickedScenes).toEqual([gameplay, menu]);
+  });
+
+  it("only preloads active scenes at start", async () => {
+    const preloadSpy = vi.spyOn(menu, "preload");
+
+    engine.sceneManager.push(gameplay);
+    await engine.start();
+
+    expect(gameplay.isPreloaded).toBe(true);
+    expect(preloadSpy).not.toHaveBeenCalled();
+  });
+
+  it("preloads scenes when they first become active", async () => {
+    const preloadSpy = vi.spyOn(menu, "preload");
+
+    engine.sceneManager.push(gameplay);
+    await engine.start();
+    await engine.sceneManager.push(menu);
+
+    expect(preloadSpy).toHaveBeenCalledTimes(1);
+    expect(menu.isPreloaded).toBe(true);
+  });
+
+  it("resolves once a transition completes", async () => {
+    const onComplete = vi.fn();
+
+    engine.sceneManager.push(gameplay);
+    await engine.start();
+    engine.step();
+
+    engine.sceneManager.replace(menu, { transition: new FadeTransition({ duration: 100 }) }).then(onComplete);
+    await flushPromises();
+
+    expect(engine.sceneManager.isTransitioning).toBe(true);
+
+    engine.step(3);
+    await flushPromises();
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(engine.sceneManager.transitionProgress).toBeCloseTo(0.5);
+
+    engine.step(3);
+    await flushPromises();
+    expect(onComplete).toHaveBeenCalled();
+    expect(engine.sceneManager.isTransitioning).toBe(false);
+  });
+
+  it("crossfades into scenes with layers", async () => {
+    const backend = new RecordingBackend();
+    const { engine, camera, scene: gameplay } = createMockEngineInstance({ renderBackend: backend });
+    const menu = new Scene("menu", engine, camera);
+    menu.addLayer("faded", { opacity: 0.5 });
+    new Actor("title", menu, { layer: "faded" });
+
+    engine.sceneManager.push(gameplay);
+    await engine.start();
+    engine.sceneManager.replace(menu, { transition: new FadeTransition({ duration: 100 }) });
+    await flushPromises();
+    engine.step(3);
+
+    const alphas = backend.lastFrame.filter(command => command.name === "setAlpha").map(command => command.args[0]);
+    expect(engine.sceneManager.transitionProgress).toBe(0.5);
+    expect(alphas).toEqual([1, 0.5, 0.5, 0.25]);
+  });
+
+  it("settles transitions when the engine stops", async () => {
+    engine.sceneManager.push(gameplay);
+    await engine.start();
+
+    const replaced = engine.sceneManager.replace(menu, { transition: new FadeTransition({ duration: 100 }) });
+    const popped = engine.sceneManager.pop({ transition: new FadeTransition({ duration: 100 }) });
+    await flushPromises();
+
+    engine.stop();
+
+    expect(await replaced).toBe(gameplay);
+    expect(await popped).toBe(menu);
+    expect(engine.sceneManager.isTransitioning).toBe(false);
+  });
+
+  it("applies stack changes in order", async () => {
+    engine.sceneManager.push(gameplay);
+    await engine.start();
+
+    const replaced = engine.sceneManager.replace(menu, { transition: new FadeTransition({ duration: 100 }) });
+    const popped = engine.sceneManager.pop();
+    await flushPromises();
+
+    expect(engine.sceneManager.stack).toEqual([menu]);
+
+    engine.step(6);
+
+    expect(await replaced).toBe(gameplay);
+    expect(await popped).toBe(menu);
+    expect(engine.sceneManager.stack).toEqual([]);
+  });
+
+  it("removes scenes from the stack when they are removed from the engine", () => {
+    engine.sceneManager.push(gameplay);
+    engine.sceneManager.push(menu);
+
+    engine.removeScene(menu);
+
+    expect(engine.sceneManager.stack).toEqual([gameplay]);
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import Scheduler from "@/core/Scheduler";
+import Vector2D from "@/math/Vector2D";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+describe("Scheduler", () => {
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    scheduler = new Scheduler();
+  });
+
+  it("calls a function once after a delay", () => {
+    const callback = vi.fn();
+    scheduler.after(100, callback);
+
+    scheduler.update(60);
+    expect(callback).not.toHaveBeenCalled();
+
+    scheduler.update(60);
+    scheduler.update(60);
+    expect(callback).toHaveBeenCalledOnce();
+    expect(scheduler.timerCount).toBe(0);
+  });
+
+  it("calls a function every interval until cancelled", () => {
+    const callback = vi.fn();
+    const timer = scheduler.every(100, callback);
+
+    scheduler.update(250);
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    scheduler.update(50);
+    expect(callback).toHaveBeenCalledTimes(3);
+
+    timer.cancel();
+    scheduler.update(100);
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(timer.isActive).toBe(false);
+  });
+
+  it("fires due timers in order of due time", () => {
+    const calls: Array<string> = [];
+    scheduler.after(50, () => calls.push("late"));
+    scheduler.after(10, () => calls.push("early"));
+
+    scheduler.update(100);
+
+    expect(calls).toEqual(["early", "late"]);
+  });
+
+  it("interleaves repeating timers by due time", () => {
+    const calls: Array<string> = [];
+    scheduler.every(30, () => calls.push("slow"));
+    scheduler.every(20, () => calls.push("fast"));
+    scheduler.after(40, () => calls.push("once"));
+
+    scheduler.update(60);
+
+    expect(calls).toEqual(["fast", "slow", "fast", "once", "slow", "fast"]);
+  });
+
+  it("does not fire timers during the update they were created in", () => {
+    const callback = vi.fn();
+    scheduler.after(0, () => scheduler.after(0, callback));
+
+    scheduler.update(16);
+    expect(callback).not.toHaveBeenCalled();
+
+    scheduler.update(16);
+    expect(callback).toHaveBeenCalledOnce();
+  });
+
+  it("throws when repeating with an interval that is not positive", () => {
+    expect(() => scheduler.every(0, () => {})).toThrowError(RangeError);
+  });
+
+  it("resumes coroutines during the update their instruction is met in", async () => {
+    const steps: Array<string> = [];
+    let isReady: boolean = false;
+
+    const coroutine = scheduler.start((function* () {
+      steps.push("started");
+      yield scheduler.wait(100);
+      steps.push("waited");
+      yield scheduler.nextTick();
+      steps.push("ticked");
+      yield scheduler.until(() => isReady);
+      steps.push("ready");
+    })());
+
+    expect(steps).toEqual(["started"]);
+
+    scheduler.update(50);
+    expect(steps).toEqual(["started"]);
+
+    scheduler.update(50);
+    expect(steps).toEqual(["started", "waited"]);
+
+    scheduler.update(16);
+    expect(steps).toEqual(["started", "waited", "ticked"]);
+
+    scheduler.update(16);
+    isReady = true;
+    scheduler.update(16);
+    expect(steps).toEqual(["started", "waited", "ticked", "ready"]);
+    await expect(coroutine.finished).resolves.toBe(true);
+  });
+
+  it("throws errors of conditions into the coroutine", async () => {
+    const error = new Error("broken");
+    const caught = vi.fn();
+
+    const coroutine = scheduler.start((function* () {
+      try {
+        yield scheduler.until(() => { throw error; });
+      } catch (thrown) {
+        caught(thrown);
+      }
+      yield scheduler.until(() => { throw error; });
+    })());
+
+    scheduler.update(16);
+    expect(caught).toHaveBeenCalledWith(error);
+
+    scheduler.update(16);
+    await expect(coroutine.finished).rejects.toThrowError("broken");
+    expect(coroutine.isActive).toBe(false);
+  });
+
+  it("cancels every timer and coroutine", async () => {
+    const callback = vi.fn();
+    const predicate = vi.fn(() => true);
+    const cleanUp = vi.fn();
+    scheduler.after(10, callback);
+    const coroutine = scheduler.start((function* () {
+      try {
+        yield scheduler.until(predicate);
+      } finally {
+        cleanUp();
+      }
+    })());
+
+    scheduler.cancelAll();
+    scheduler.update(100);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(predicate).not.toHaveBeenCalled();
+    expect(cleanUp).toHaveBeenCalledOnce();
+    expect(scheduler.timerCount).toBe(0);
+    await expect(coroutine.finished).resolves.toBe(false);
+  });
+
+  it("can cancel a coroutine from inside it", async () => {
+    const steps: Array<string> = [];
+    const coroutine = scheduler.start((function* () {
+      yield scheduler.nextTick();
+      scheduler.cancelAll();
+      steps.push("cancelled");
+      yield scheduler.nextTick();
+      steps.push("resumed");
+    })());
+
+    scheduler.update(16);
+    scheduler.update(16);
+
+    expect(steps).toEqual(["cancelled"]);
+    await expect(coroutine.finished).resolves.toBe(false);
+  });
+
+  describe("engine", () => {
+    it("only passes time while the engine ticks, with its time scale", async () => {
+      const { engine } = createMockEngineInstance({ tickRate: 10, timeScale: 0.5 });
+      const callback = vi.fn();
+      engine.scheduler.after(100, callback);
+
+      await engine.start();
+      engine.step(1);
+      expect(engine.scheduler.time).toBe(50);
+
+      engine.pause();
+      engine.step(5);
+      expect(callback).not.toHaveBeenCalled();
+
+      engine.resume();
+      engine.step(1);
+      expect(callback).toHaveBeenCalledOnce();
+    });
+
+    it("resumes coroutines in step with every tick of a frame", async () => {
+      const { engine, scene, actor } = createMockEngineInstance({ tickRate: 10 });
+      actor.velocity = new Vector2D(10, 0);
+      const positions: Array<number> = [];
+
+      await engine.start();
+      scene.scheduler.start((function* () {
+        for (let i = 0; i < 3; i++) {
+          yield scene.scheduler.nextTick();
+          positions.push(actor.position.x);
+        }
+      })());
+      engine.step(10);
+
+      expect(positions).toEqual([0, 1, 2]);
+    });
+
+    it("updates scene schedulers with the scene's time scale", async () => {
+      const { engine, scene } = createMockEngineInstance({ tickRate: 10 });
+      scene.timeScale = 2;
+
+      await engine.start();
+      engine.step(2);
+
+      expect(scene.scheduler.time).toBe(400);
+      expect(engine.scheduler.time).toBe(200);
+    });
+
+    it("cancels scene timers when the scene is disposed", () => {
+      const { scene } = createMockEngineInstance();
+      scene.scheduler.every(100, () => {});
+
+      scene.dispose();
+
+      expect(scene.scheduler.timerCount).toBe(0);
+    });
+  });
+});
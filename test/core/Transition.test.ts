@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { FadeTransition, SlideTransition, WipeTransition } from "@/core/Transition";
+import RecordingBackend from "@/render/RecordingBackend";
+import Vector2D from "@/math/Vector2D";
+
+/**
+ * Renders a single transition frame into a recording backend, marking where
+ * each set of scenes is rendered.
+ * @returns the recorded commands
+ */
+const renderFrame = (transition: Transitionable, progress: number): Array<DrawCommand> => {
+  const backend = new RecordingBackend();
+
+  backend.beginFrame();
+  transition.render(backend, progress, () => backend.fillText("from", 0, 0), () => backend.fillText("to", 0, 0), new Vector2D(800, 600));
+  backend.endFrame();
+
+  return backend.lastFrame;
+};
+
+describe("Transition", () => {
+  it("has a default duration and linear easing", () => {
+    const transition = new FadeTransition();
+
+    expect(transition.duration).toBe(500);
+    expect(transition.easing(0.25)).toBe(0.25);
+  });
+
+  describe("FadeTransition", () => {
+    it("crossfades by default", () => {
+      const commands = renderFrame(new FadeTransition(), 0.25);
+
+      expect(commands.slice(0, 5)).toEqual([
+        { name: "fillText", args: ["from", 0, 0] },
+        { name: "save", args: [] },
+        { name: "setAlpha", args: [0.25] },
+        { name: "fillText", args: ["to", 0, 0] },
+        { name: "restore", args: [] },
+      ]);
+    });
+
+    it("fades through a color", () => {
+      const first = renderFrame(new FadeTransition({ color: "black" }), 0.25);
+      const second = renderFrame(new FadeTransition({ color: "black" }), 0.75);
+
+      expect(first[0].args[0]).toBe("from");
+      expect(first).toContainEqual({ name: "setAlpha", args: [0.5] });
+      expect(second[0].args[0]).toBe("to");
+      expect(second).toContainEqual({ name: "fillRect", args: [0, 0, 800, 600] });
+    });
+  });
+
+  describe("SlideTransition", () => {
+    it("moves both sets of scenes in the same direction", () => {
+      const commands = renderFrame(new SlideTransition({ direction: "left" }), 0.25);
+
+      expect(commands.filter(command => command.name === "translate")).toEqual([
+        { name: "translate", args: [-200, 0] },
+        { name: "translate", args: [600, 0] },
+      ]);
+    });
+  });
+
+  describe("WipeTransition", () => {
+    it("clips the incoming scenes to the revealed area", () => {
+      const right = renderFrame(new WipeTransition(), 0.25);
+      const up = renderFrame(new WipeTransition({ direction: "up" }), 0.25);
+
+      expect(right).toContainEqual({ name: "rect", args: [0, 0, 200, 600] });
+      expect(up).toContainEqual({ name: "rect", args: [0, 450, 800, 150] });
+    });
+  });
+});
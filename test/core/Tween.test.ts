@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from "vitest";
+import Tween, { TweenParallel, TweenSequence } from "@/core/Tween";
+import Easing from "@/math/Easing";
+import Vector2D from "@/math/Vector2D";
+
+describe("Tween", () => {
+  it("animates numeric and vector properties", () => {
+    const target = { rotation: 0, position: new Vector2D(0, 0) };
+    const tween = new Tween(target, { rotation: 1, position: new Vector2D(10, 20) }, { duration: 100 });
+
+    expect(tween.update(25)).toBe(false);
+    expect(target.rotation).toBeCloseTo(0.25);
+    expect(target.position).toMatchObject({ x: 2.5, y: 5 });
+
+    expect(tween.update(75)).toBe(true);
+    expect(target.rotation).toBe(1);
+    expect(target.position).toMatchObject({ x: 10, y: 20 });
+    expect(tween.isFinished).toBe(true);
+  });
+
+  it("applies its easing", () => {
+    const target = { zoom: 1 };
+    const tween = new Tween(target, { zoom: 2 }, { duration: 100, easing: Easing.quadIn });
+
+    tween.update(50);
+
+    expect(target.zoom).toBeCloseTo(1.25);
+  });
+
+  it("waits for its delay and reads start values when it starts", () => {
+    const target = { opacity: 1 };
+    const tween = new Tween(target, { opacity: 0 }, { duration: 100, delay: 50 });
+
+    tween.update(40);
+    target.opacity = 0.5;
+    expect(target.opacity).toBe(0.5);
+
+    tween.update(60);
+
+    expect(target.opacity).toBeCloseTo(0.25);
+  });
+
+  it("repeats and plays every other pass backwards when yoyoing", () => {
+    const target = { value: 0 };
+    const tween = new Tween(target, { value: 10 }, { duration: 100, repeat: 1, yoyo: true });
+
+    tween.update(125);
+    expect(target.value).toBeCloseTo(7.5);
+    expect(tween.isFinished).toBe(false);
+
+    tween.update(75);
+    expect(target.value).toBe(0);
+    expect(tween.isFinished).toBe(true);
+  });
+
+  it("repeats until cancelled", () => {
+    const target = { value: 0 };
+    const tween = new Tween(target, { value: 10 }, { duration: 100, repeat: Infinity });
+
+    tween.update(1050);
+    expect(target.value).toBeCloseTo(5);
+    expect(tween.isFinished).toBe(false);
+
+    tween.cancel();
+    tween.update(50);
+    expect(target.value).toBeCloseTo(5);
+  });
+
+  it("calls its callbacks and resolves its promise once completed", async () => {
+    const onUpdate = vi.fn();
+    const onComplete = vi.fn();
+    const tween = new Tween({ value: 0 }, { value: 1 }, { duration: 100, onUpdate, onComplete });
+
+    tween.update(50);
+    tween.update(50);
+
+    expect(onUpdate).toHaveBeenCalledWith(0.5);
+    expect(onComplete).toHaveBeenCalledOnce();
+    await expect(tween.finished).resolves.toBe(true);
+  });
+
+  it("resolves its promise with false when cancelled", async () => {
+    const onComplete = vi.fn();
+    const tween = new Tween({ value: 0 }, { value: 1 }, { onComplete });
+
+    tween.cancel();
+
+    expect(tween.isFinished).toBe(true);
+    expect(onComplete).not.toHaveBeenCalled();
+    await expect(tween.finished).resolves.toBe(false);
+  });
+
+  it("cancels itself once its target is destroyed", async () => {
+    const target = { value: 0, isQueuedForDisposal: false };
+    const tween = new Tween(target, { value: 1 }, { duration: 100 });
+
+    tween.update(50);
+    target.isQueuedForDisposal = true;
+
+    expect(tween.update(50)).toBe(true);
+    expect(target.value).toBeCloseTo(0.5);
+    await expect(tween.finished).resolves.toBe(false);
+  });
+
+  describe("TweenSequence", () => {
+    it("plays tweens one after another", async () => {
+      const target = { x: 0 };
+      const sequence = new TweenSequence([
+        new Tween(target, { x: 10 }, { duration: 100 }),
+        new Tween(target, { x: 0 }, { duration: 100 }),
+      ]);
+
+      sequence.update(100);
+      expect(target.x).toBe(10);
+
+      sequence.update(50);
+      expect(target.x).toBeCloseTo(5);
+      expect(sequence.isFinished).toBe(false);
+
+      expect(sequence.update(50)).toBe(true);
+      expect(target.x).toBe(0);
+      await expect(sequence.finished).resolves.toBe(true);
+    });
+
+    it("passes time left over from a finished tween on to the next one", () => {
+      const target = { x: 0 };
+      const sequence = new TweenSequence([
+        new Tween(target, { x: 100 }, { duration: 10 }),
+        new Tween(target, { x: 200 }, { duration: 10 }),
+      ]);
+
+      sequence.update(15);
+      expect(target.x).toBe(150);
+
+      expect(sequence.update(10)).toBe(true);
+      expect(sequence.unusedTime).toBe(5);
+    });
+
+    it("cancels its remaining tweens when cancelled", async () => {
+      const second = new Tween({ x: 0 }, { x: 1 });
+      const sequence = new TweenSequence([new Tween({ x: 0 }, { x: 1 }), second]);
+
+      sequence.cancel();
+
+      expect(second.isFinished).toBe(true);
+      await expect(sequence.finished).resolves.toBe(false);
+    });
+  });
+
+  describe("TweenParallel", () => {
+    it("plays tweens together until they have all finished", () => {
+      const onComplete = vi.fn();
+      const target = { x: 0, y: 0 };
+      const parallel = new TweenParallel([
+        new Tween(target, { x: 10 }, { duration: 100 }),
+        new Tween(target, { y: 10 }, { duration: 200 }),
+      ], { onComplete });
+
+      parallel.update(100);
+      expect(target).toEqual({ x: 10, y: 5 });
+      expect(onComplete).not.toHaveBeenCalled();
+
+      parallel.update(100);
+      expect(target).toEqual({ x: 10, y: 10 });
+      expect(onComplete).toHaveBeenCalledOnce();
+    });
+
+    it("checks the targets of its tweens", () => {
+      const target = { x: 0 };
+      const parallel = new TweenParallel([new Tween(target, { x: 1 })]);
+
+      expect(parallel.isTargeting(target)).toBe(true);
+      expect(parallel.isTargeting({})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import TweenManager from "@/core/TweenManager";
+import Tween from "@/core/Tween";
+import Vector2D from "@/math/Vector2D";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+describe("TweenManager", () => {
+  let manager: TweenManager;
+
+  beforeEach(() => {
+    manager = new TweenManager();
+  });
+
+  it("plays tweens until they finish", () => {
+    const target = { x: 0 };
+    manager.to(target, { x: 10 }, { duration: 100 });
+
+    manager.update(50);
+    expect(target.x).toBe(5);
+    expect(manager.count).toBe(1);
+
+    manager.update(50);
+    expect(target.x).toBe(10);
+    expect(manager.count).toBe(0);
+  });
+
+  it("plays sequences and parallel groups", () => {
+    const target = { x: 0, y: 0 };
+    manager.sequence([
+      new Tween(target, { x: 10 }, { duration: 100 }),
+      new Tween(target, { y: 10 }, { duration: 100 }),
+    ]);
+
+    manager.update(100);
+    manager.update(50);
+
+    expect(target).toEqual({ x: 10, y: 5 });
+  });
+
+  it("starts tweens added while updating on the next update", () => {
+    const target = { x: 0 };
+    manager.to(target, { x: 10 }, { duration: 100, onComplete: () => manager.to(target, { x: 0 }, { duration: 100 }) });
+
+    manager.update(100);
+    expect(target.x).toBe(10);
+    expect(manager.count).toBe(1);
+
+    manager.update(50);
+    expect(target.x).toBe(5);
+  });
+
+  it("cancels the tweens of a target", () => {
+    const target = { x: 0 };
+    const other = { x: 0 };
+    manager.to(target, { x: 10 });
+    manager.parallel([new Tween(target, { x: 5 }), new Tween(other, { x: 5 })]);
+    manager.to(other, { x: 10 });
+
+    expect(manager.cancelTweensOf(target)).toBe(2);
+
+    manager.update(10);
+    expect(manager.count).toBe(1);
+    expect(target.x).toBe(0);
+  });
+
+  it("cancels every tween", () => {
+    const tween = manager.to({ x: 0 }, { x: 10 });
+
+    manager.cancelAll();
+
+    expect(tween.isFinished).toBe(true);
+    expect(manager.count).toBe(0);
+  });
+
+  describe("engine", () => {
+    it("updates tweens every tick with the engine's time scale", async () => {
+      const { engine, camera } = createMockEngineInstance({ tickRate: 10, timeScale: 0.5 });
+      engine.tweens.to(camera, { zoom: 2 }, { duration: 100 });
+
+      await engine.start();
+      engine.step(1);
+
+      expect(camera.zoom).toBeCloseTo(1.5);
+    });
+
+    it("tweens element properties and cancels them once the element is destroyed", async () => {
+      const { engine, actor } = createMockEngineInstance({ tickRate: 10 });
+      const tween = actor.tween({ position: new Vector2D(20, 0), opacity: 0 }, { duration: 200 });
+
+      await engine.start();
+      engine.step(1);
+
+      expect(actor.position).toMatchObject({ x: 10, y: 0 });
+      expect(actor.opacity).toBeCloseTo(0.5);
+
+      actor.destroy();
+      engine.step(1);
+
+      expect(actor.position).toMatchObject({ x: 10, y: 0 });
+      expect(engine.tweens.count).toBe(0);
+      await expect(tween.finished).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import Viewport from "@/core/Viewport";
+import Vector2D from "@/math/Vector2D";
+import RecordingBackend from "@/render/RecordingBackend";
+
+/**
+ * Creates a viewport with a 320x180 resolution on an 800x600 canvas.
+ * @returns the viewport
+ */
+const createViewport = (scaleMode: ScaleMode, pixelRatio: number = 1): Viewport => {
+  const viewport = new Viewport({ resolution: new Vector2D(320, 180), scaleMode });
+  viewport.resize(800, 600, pixelRatio);
+
+  return viewport;
+};
+
+describe("Viewport", () => {
+  it("uses CSS pixels without a resolution", () => {
+    const viewport = new Viewport();
+    viewport.resize(800, 600, 2);
+
+    expect(viewport.size).toMatchObject({ x: 800, y: 600 });
+    expect(viewport.physicalSize).toMatchObject({ x: 1600, y: 1200 });
+    expect(viewport.scale).toMatchObject({ x: 2, y: 2 });
+    expect(viewport.toLogical(100, 50)).toMatchObject({ x: 100, y: 50 });
+  });
+
+  it("throws on a non-positive resolution", () => {
+    expect(() => new Viewport({ resolution: new Vector2D(0, 180) })).toThrowError(RangeError);
+  });
+
+  describe("scale modes", () => {
+    it("fits the resolution inside the canvas", () => {
+      const viewport = createViewport("fit");
+
+      expect(viewport.size).toMatchObject({ x: 320, y: 180 });
+      expect(viewport.scale).toMatchObject({ x: 2.5, y: 2.5 });
+      expect(viewport.offset).toMatchObject({ x: 0, y: 75 });
+    });
+
+    it("fills the canvas with the resolution", () => {
+      const viewport = createViewport("fill");
+
+      expect(viewport.scale.x).toBeCloseTo(600 / 180);
+      expect(viewport.offset.x).toBeCloseTo((800 - 320 * 600 / 180) / 2);
+      expect(viewport.offset.y).toBe(0);
+    });
+
+    it("stretches each axis independently", () => {
+      const viewport = createViewport("stretch");
+
+      expect(viewport.scale.x).toBe(2.5);
+      expect(viewport.scale.y).toBeCloseTo(600 / 180);
+      expect(viewport.offset).toMatchObject({ x: 0, y: 0 });
+    });
+
+    it("scales by whole multiples in integer mode", () => {
+      const viewport = createViewport("integer");
+
+      expect(viewport.scale).toMatchObject({ x: 2, y: 2 });
+      expect(viewport.offset).toMatchObject({ x: 80, y: 120 });
+    });
+
+    it("scales by physical pixels", () => {
+      const viewport = createViewport("integer", 2);
+
+      expect(viewport.scale).toMatchObject({ x: 5, y: 5 });
+    });
+  });
+
+  it("converts CSS pixels to logical units", () => {
+    const viewport = createViewport("fit", 2);
+
+    expect(viewport.toLogical(400, 300)).toMatchObject({ x: 160, y: 90 });
+    expect(viewport.toLogical(0, 75)).toMatchObject({ x: 0, y: 0 });
+  });
+
+  describe("applying", () => {
+    it("draws letterbox bars and clips to the logical area", () => {
+      const viewport = createViewport("fit");
+      viewport.letterboxColor = "#101010";
+      const backend = new RecordingBackend();
+
+      viewport.apply(backend);
+
+      expect(backend.pendingCommands).toEqual([
+        { name: "setTransform", args: [1, 0, 0, 1, 0, 0] },
+        { name: "setFillStyle", args: ["#101010"] },
+        { name: "fillRect", args: [0, 0, 800, 75] },
+        { name: "fillRect", args: [0, 525, 800, 75] },
+        { name: "setTransform", args: [2.5, 0, 0, 2.5, 0, 75] },
+        { name: "beginPath", args: [] },
+        { name: "rect", args: [0, 0, 320, 180] },
+        { name: "clip", args: [] },
+      ]);
+    });
+
+    it("disables image smoothing in integer mode", () => {
+      const backend = new RecordingBackend();
+
+      createViewport("integer").apply(backend);
+
+      expect(backend.pendingCommands).toContainEqual({ name: "setImageSmoothing", args: [false] });
+    });
+
+    it("only scales without a resolution", () => {
+      const viewport = new Viewport();
+      viewport.resize(800, 600, 2);
+      const backend = new RecordingBackend();
+
+      viewport.apply(backend);
+
+      expect(backend.pendingCommands).toEqual([{ name: "setTransform", args: [2, 0, 0, 2, 0, 0] }]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import ComponentStore from "@/ecs/ComponentStore";
+
+describe("ComponentStore", () => {
+  it("sets and gets component data", () => {
+    const store = new ComponentStore<{ x: number }>("position");
+
+    store.set(3, { x: 1 });
+    store.set(3, { x: 2 });
+
+    expect(store.get(3)).toEqual({ x: 2 });
+    expect(store.get(4)).toBeUndefined();
+    expect(store.size).toBe(1);
+  });
+
+  it("keeps data packed when removing", () => {
+    const store = new ComponentStore<string>("tag");
+    store.set(0, "a");
+    store.set(1, "b");
+    store.set(2, "c");
+
+    expect(store.remove(0)).toBe(true);
+    expect(store.remove(0)).toBe(false);
+
+    expect(store.entities).toEqual([2, 1]);
+    expect(store.get(2)).toBe("c");
+    expect(store.has(0)).toBe(false);
+  });
+
+  it("ignores stale lookups after removal", () => {
+    const store = new ComponentStore<string>("tag");
+    store.set(5, "a");
+    store.remove(5);
+    store.set(6, "b");
+
+    expect(store.has(5)).toBe(false);
+    expect(store.get(5)).toBeUndefined();
+  });
+
+  it("keeps indices while locked and compacts once unlocked", () => {
+    const store = new ComponentStore<string>("tag");
+    store.set(0, "a");
+    store.set(1, "b");
+    store.set(2, "c");
+
+    store.lock();
+    store.remove(0);
+    store.set(3, "d");
+
+    expect(store.entities).toEqual([-1, 1, 2, 3]);
+    expect(store.size).toBe(3);
+    expect(store.has(0)).toBe(false);
+
+    store.unlock();
+
+    expect(store.entities).toEqual([1, 2, 3]);
+    expect(store.values).toEqual(["b", "c", "d"]);
+    expect(store.get(3)).toBe("d");
+  });
+});
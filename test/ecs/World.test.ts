@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from "vitest";
+import World from "@/ecs/World";
+import Actor from "@/elements/Actor";
+import Vector2D from "@/math/Vector2D";
+import RecordingBackend from "@/render/RecordingBackend";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+type Position = { x: number, y: number };
+type Velocity = { x: number, y: number };
+
+describe("World", () => {
+  describe("entities", () => {
+    it("reuses destroyed entity IDs", () => {
+      const world = new World();
+      const first = world.createEntity();
+      world.createEntity();
+
+      expect(world.destroyEntity(first)).toBe(true);
+      expect(world.destroyEntity(first)).toBe(false);
+      expect(world.entityCount).toBe(1);
+      expect(world.createEntity()).toBe(first);
+    });
+
+    it("removes components of destroyed entities", () => {
+      const world = new World();
+      const position = world.defineComponent<Position>("position");
+      const entity = world.createEntity();
+      world.addComponent(entity, position, { x: 1, y: 2 });
+
+      world.destroyEntity(entity);
+
+      expect(position.size).toBe(0);
+    });
+
+    it("throws when adding components to missing entities", () => {
+      const world = new World();
+      const position = world.defineComponent<Position>("position");
+
+      expect(() => world.addComponent(0, position, { x: 0, y: 0 })).toThrowError();
+    });
+  });
+
+  describe("queries", () => {
+    it("matches entities with every component", () => {
+      const world = new World();
+      const position = world.defineComponent<Position>("position");
+      const velocity = world.defineComponent<Velocity>("velocity");
+      const still = world.createEntity();
+      const moving = world.createEntity();
+
+      world.addComponent(still, position, { x: 0, y: 0 });
+      world.addComponent(moving, position, { x: 0, y: 0 });
+      world.addComponent(moving, velocity, { x: 1, y: 0 });
+
+      expect(world.query(position)).toEqual([still, moving]);
+      expect(world.query(position, velocity)).toEqual([moving]);
+    });
+
+    it("iterates component data", () => {
+      const world = new World();
+      const position = world.defineComponent<Position>("position");
+      const velocity = world.defineComponent<Velocity>("velocity");
+      const entity = world.createEntity();
+      world.addComponent(entity, position, { x: 0, y: 0 });
+      world.addComponent(entity, velocity, { x: 2, y: 3 });
+
+      world.each([position, velocity], (_, p, v) => {
+        p.x += v.x;
+        p.y += v.y;
+      });
+
+      expect(world.getComponent(entity, position)).toEqual({ x: 2, y: 3 });
+    });
+
+    it("skips entities destroyed while iterating", () => {
+      const world = new World();
+      const position = world.defineComponent<Position>("position");
+      const entities = [world.createEntity(), world.createEntity()];
+      entities.forEach(entity => world.addComponent(entity, position, { x: 0, y: 0 }));
+      const visited: Array<number> = [];
+
+      world.each([position], entity => {
+        visited.push(entity);
+        world.destroyEntity(entities[1]);
+      });
+
+      expect(visited).toEqual([entities[0]]);
+    });
+
+    it("visits every remaining entity when others are destroyed or created while iterating", () => {
+      const world = new World();
+      const position = world.defineComponent<Position>("position");
+      const entities = [world.createEntity(), world.createEntity(), world.createEntity()];
+      entities.forEach(entity => world.addComponent(entity, position, { x: 0, y: 0 }));
+      const visited: Array<number> = [];
+
+      world.each([position], entity => {
+        visited.push(entity);
+
+        if (entity !== entities[1]) return;
+        world.destroyEntity(entities[0]);
+        world.addComponent(world.createEntity(), position, { x: 0, y: 0 });
+      });
+
+      expect(visited).toEqual(entities);
+      expect(position.entities).toEqual([entities[1], entities[2], entities[0]]);
+    });
+  });
+
+  describe("scenes", () => {
+    it("runs tick systems with the scene's actors", async () => {
+      const { engine, scene } = createMockEngineInstance();
+      const world = new World();
+      const run = vi.fn();
+      scene.world = world;
+      scene.timeScale = 0.5;
+      world.addSystem({ phase: "tick", run });
+
+      await engine.start();
+      engine.step();
+
+      expect(run).toHaveBeenCalledWith(world, 500 / 60);
+    });
+
+    it("renders systems on their layer with the layer's camera offset", () => {
+      const backend = new RecordingBackend();
+      const { scene, camera } = createMockEngineInstance({ renderBackend: backend });
+      const world = new World();
+      const order: Array<string> = [];
+      scene.world = world;
+      scene.addLayer("foreground", { zIndex: 1, parallax: new Vector2D(2, 2) });
+      camera.position = new Vector2D(10, 0);
+
+      scene.actors.forEach(actor => vi.spyOn(actor, "render").mockImplementation(() => order.push(actor.name)));
+      const hero = new Actor("hero", scene, { layer: "foreground" });
+      vi.spyOn(hero, "render").mockImplementation(() => order.push(hero.name));
+      world.addSystem({ phase: "render", layer: "foreground", run: () => order.push("bullets") });
+      world.addSystem({ phase: "render", layer: "missing", run: () => order.push("particles") });
+
+      scene.render(0);
+
+      expect(order).toEqual(["testActor", "particles", "hero", "bullets"]);
+      expect(backend.pendingCommands).toContainEqual({ name: "translate", args: [-20, 0] });
+    });
+
+    it("renders systems added or removed after rendering", () => {
+      const { scene } = createMockEngineInstance({ renderBackend: new RecordingBackend() });
+      const world = new World();
+      const order: Array<string> = [];
+      const bullets: System = { phase: "render", run: () => order.push("bullets") };
+      scene.world = world;
+      world.addSystem(bullets);
+
+      scene.render(0);
+      world.removeSystem(bullets);
+      world.addSystem({ phase: "render", run: () => order.push("particles") });
+      scene.render(0);
+
+      expect(order).toEqual(["bullets", "particles"]);
+    });
+  });
+});
@@ -1,7 +1,9 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import Actor from "@/elements/Actor";
+import Component from "@/elements/Component";
 import { createMockEngineInstance } from "../mocks/Engine.mock";
 import Vector2D from "@/math/Vector2D";
+import RecordingBackend from "@/render/RecordingBackend";
 
 describe("Actor", () => {
   describe("constructor", () => {
@@ -23,6 +25,10 @@ describe("Actor", () => {
 
       expect(actor.textureID).toBe("");
       expect(actor.textureFrame).toBe(0);
+
+      expect(actor.gravityScale).toBe(1);
+      expect(actor.isFlippedHorizontally).toBe(false);
+      expect(actor.isFlippedVertically).toBe(false);
     });
 
     it("can be created with default properties", () => {
@@ -41,4 +47,172 @@ describe("Actor", () => {
       expect(actor.scale.toObject()).toEqual({ x: 4, y: 5 });
     });
   });
-})
+
+  describe("rendering", () => {
+    it("rotates and flips the texture about the pivot", () => {
+      const backend = new RecordingBackend();
+      const { scene } = createMockEngineInstance({ renderBackend: backend });
+      const actor = new Actor("test", scene, {
+        position: new Vector2D(10, 20),
+        scale: new Vector2D(8, 4),
+        rotation: Math.PI / 2,
+        isFlippedHorizontally: true,
+      });
+      actor.addTexture("texture", (<unknown>{ width: 8, height: 4 }) as ImageBitmap);
+      actor.textureID = "texture";
+      scene.camera.position = new Vector2D(5, 5);
+
+      actor.render(1);
+
+      expect(backend.pendingCommands.map(command => command.name)).toEqual([
+        "save", "translate", "translate", "rotate", "translate", "save", "translate", "scale", "translate", "drawImage", "restore", "restore",
+      ]);
+      expect(backend.pendingCommands[1].args).toEqual([-5, -5]);
+      expect(backend.pendingCommands[2].args).toEqual([14, 22]);
+      expect(backend.pendingCommands[7].args).toEqual([-1, 1]);
+      expect(backend.pendingCommands[9].args.slice(5)).toEqual([0, 0, 8, 4]);
+    });
+
+    it("skips textures that have not been added", () => {
+      const backend = new RecordingBackend();
+      const { actor } = createMockEngineInstance({ renderBackend: backend });
+      actor.playTexture("missing");
+
+      expect(() => actor.tick(16)).not.toThrow();
+      actor.render(1);
+
+      expect(backend.pendingCommands.map(command => command.name)).not.toContain("drawImage");
+    });
+
+    it("multiplies its opacity with its ancestors and layer", () => {
+      const backend = new RecordingBackend();
+      const { scene } = createMockEngineInstance({ renderBackend: backend });
+      scene.addLayer("faded", { opacity: 0.5 });
+      const parent = new Actor("parent", scene, { layer: "faded", opacity: 0.5 });
+      const child = new Actor("child", scene, { opacity: 0.5 });
+      parent.addChild(child);
+
+      scene.render(1);
+
+      expect(child.opacityInHierarchy).toBe(0.25);
+      expect(backend.pendingCommands).toContainEqual({ name: "setAlpha", args: [0.125] });
+      expect(backend.pendingCommands).not.toContainEqual({ name: "setAlpha", args: [0.0625] });
+    });
+
+    it("combines its opacity with the alpha it is drawn with", () => {
+      const backend = new RecordingBackend();
+      const { actor } = createMockEngineInstance({ renderBackend: backend });
+      actor.opacity = 0.5;
+
+      backend.setAlpha(0.5);
+      actor.render(1);
+
+      expect(backend.pendingCommands).toContainEqual({ name: "setAlpha", args: [0.25] });
+    });
+  });
+
+  describe("gravity", () => {
+    it("accelerates by the scaled scene gravity", () => {
+      const { scene } = createMockEngineInstance();
+      const actor = new Actor("test", scene, { gravityScale: 2 });
+      scene.environment.gravity = new Vector2D(0, 10);
+
+      actor.tick(500);
+
+      expect(actor.velocity).toMatchObject({ x: 0, y: 10 });
+    });
+
+    it("is ignored when disabled", () => {
+      const { scene } = createMockEngineInstance();
+      const actor = new Actor("test", scene, { isGravityEnabled: false });
+      scene.environment.gravity = new Vector2D(0, 10);
+
+      actor.tick(500);
+
+      expect(actor.velocity).toMatchObject({ x: 0, y: 0 });
+    });
+  });
+
+  describe("destroying", () => {
+    it("is removed from its scene after the next tick", async () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      const destroySpy = vi.spyOn(actor, "onDestroy");
+      await engine.start();
+
+      actor.destroy();
+
+      expect(scene.actors.has(actor.ID)).toBe(true);
+      expect(destroySpy).not.toHaveBeenCalled();
+
+      engine.step();
+
+      expect(scene.actors.has(actor.ID)).toBe(false);
+      expect(destroySpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("destroys its children", async () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      const child = new Actor("child", scene);
+      actor.addChild(child);
+      await engine.start();
+
+      actor.destroy();
+      engine.step();
+
+      expect(scene.actors.size).toBe(0);
+      expect(actor.children).toEqual([]);
+    });
+
+    it("unregisters its event callbacks", () => {
+      const { engine, actor } = createMockEngineInstance();
+      const callback = () => {};
+      actor.registerEventCallback("onkeydown", callback);
+      actor.registerEventCallback("onmousedown", () => {});
+      engine.registerEventCallback("onkeydown", () => {});
+
+      actor.dispose();
+
+      expect(engine.eventHandler.getRegisteredCallbacks("onkeydown").length).toBe(1);
+      expect(engine.eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(0);
+    });
+
+    it("removes its GUI section and components", () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      const other = new Actor(actor.name, scene);
+      const component = actor.addComponent(new (class Health extends Component { })());
+      const sceneSection = engine.parameterGUI.baseSection.getSubsectionByTitle(scene.name);
+
+      actor.dispose();
+
+      expect(component.isAttached).toBe(false);
+      expect(sceneSection.subsections.length).toBe(1);
+      expect(other.isQueuedForDisposal).toBe(false);
+    });
+
+    it("leaves the GUI alone when created without a section", () => {
+      const { engine, scene } = createMockEngineInstance();
+      const hidden = new Actor("hidden", scene, { isGUIEnabled: false });
+      const sceneSection = engine.parameterGUI.baseSection.getSubsectionByTitle(scene.name);
+
+      hidden.dispose();
+      expect(sceneSection.subsections.length).toBe(1);
+
+      engine.parameterGUI.baseSection.removeSubsection(scene.name);
+      expect(() => new Actor("orphan", scene, { isGUIEnabled: false }).dispose()).not.toThrow();
+    });
+
+    it("closes textures it owns", () => {
+      const { actor } = createMockEngineInstance();
+      const owned = <ImageBitmap><unknown>{ width: 1, height: 1, close: vi.fn() };
+      const shared = <ImageBitmap><unknown>{ width: 1, height: 1, close: vi.fn() };
+      actor.addTexture("owned", owned, undefined, undefined, true);
+      actor.addTexture("shared", shared);
+
+      actor.dispose();
+
+      expect(owned.close).toHaveBeenCalled();
+      expect(shared.close).not.toHaveBeenCalled();
+      expect(actor.textures).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from "vitest";
+import Component from "@/elements/Component";
+import Actor from "@/elements/Actor";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+import RecordingBackend from "@/render/RecordingBackend";
+
+class Health extends Component {
+  hitPoints: number = 3;
+}
+
+class Blink extends Component {
+  override render = (renderer: RenderBackendable): void => renderer.setAlpha(0.5);
+}
+
+describe("Component", () => {
+  it("is named after its class", () => {
+    expect(new Health().name).toBe("Health");
+    expect(new Health({ name: "shield" }).name).toBe("shield");
+  });
+
+  describe("attaching", () => {
+    it("calls its lifecycle hooks", () => {
+      const { actor } = createMockEngineInstance();
+      const health = new Health();
+      const attachSpy = vi.spyOn(health, "onAttach");
+      const detachSpy = vi.spyOn(health, "onDetach");
+
+      actor.addComponent(health);
+
+      expect(health.actor).toBe(actor);
+      expect(attachSpy).toHaveBeenCalledWith(actor);
+
+      expect(actor.removeComponent(health)).toBe(true);
+      expect(actor.removeComponent(health)).toBe(false);
+      expect(health.isAttached).toBe(false);
+      expect(detachSpy).toHaveBeenCalledWith(actor);
+    });
+
+    it("throws when attached twice", () => {
+      const { scene, actor } = createMockEngineInstance();
+      const health = actor.addComponent(new Health());
+      const other = new Actor("other", scene);
+
+      expect(() => other.addComponent(health)).toThrowError();
+    });
+
+    it("throws when accessing the actor while detached", () => {
+      expect(() => new Health().actor).toThrowError();
+    });
+  });
+
+  it("can be queried by type", () => {
+    const { actor } = createMockEngineInstance();
+    const health = actor.addComponent(new Health());
+    const blink = actor.addComponent(new Blink());
+
+    expect(actor.getComponent(Health)).toBe(health);
+    expect(actor.getComponent(Component)).toBe(health);
+    expect(actor.getComponents(Component)).toEqual([health, blink]);
+    expect(actor.components.length).toBe(2);
+  });
+
+  it("is ticked and rendered with its actor when enabled", () => {
+    const backend = new RecordingBackend();
+    const { actor } = createMockEngineInstance({ renderBackend: backend });
+    const health = actor.addComponent(new Health());
+    const blink = actor.addComponent(new Blink());
+    const tickSpy = vi.spyOn(health, "tick");
+
+    actor.tick(10);
+    health.isEnabled = false;
+    actor.tick(10);
+    actor.render(0);
+
+    expect(tickSpy).toHaveBeenCalledTimes(1);
+    expect(tickSpy).toHaveBeenCalledWith(10);
+    expect(backend.pendingCommands).toContainEqual({ name: "setAlpha", args: [0.5] });
+
+    blink.isEnabled = false;
+    backend.pendingCommands.length = 0;
+    actor.render(0);
+
+    expect(backend.pendingCommands).not.toContainEqual({ name: "setAlpha", args: [0.5] });
+  });
+
+  it("adds its properties to the actor's GUI section", () => {
+    const { engine, scene, actor } = createMockEngineInstance();
+    const health = actor.addComponent(new Health());
+    const actorSection = engine.parameterGUI.baseSection.getSubsectionByTitle(scene.name).getSubsectionByTitle(actor.name);
+    const section = actorSection.getSubsectionByTitle("Health");
+
+    expect(Array.from(section.parameters.keys())).toEqual(["Enabled", "hitPoints"]);
+
+    health.hitPoints = 1;
+    expect(section.parameters.get("hitPoints")!()).toBe(1);
+
+    actor.removeComponent(health);
+    expect(actorSection.subsections.length).toBe(0);
+  });
+});
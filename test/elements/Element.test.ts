@@ -1,7 +1,8 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import Element from "@/elements/Element";
 import { createMockEngineInstance } from "../mocks/Engine.mock";
 import Vector2D from "@/math/Vector2D";
+import RecordingBackend from "@/render/RecordingBackend";
 
 describe("Element", () => {
   describe("constructor", () => {
@@ -57,6 +58,293 @@ describe("Element", () => {
 
       expect(engine.eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(0);
     });
+
+    it("can be suspended and resumed", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("test", engine, {});
+
+      element.registerEventCallback("onmousedown", () => {});
+      element.suspendEventCallbacks();
+      element.registerEventCallback("onkeydown", () => {});
+
+      expect(engine.eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(0);
+      expect(engine.eventHandler.getRegisteredCallbacks("onkeydown").length).toBe(0);
+
+      element.resumeEventCallbacks();
+
+      expect(engine.eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(1);
+      expect(engine.eventHandler.getRegisteredCallbacks("onkeydown").length).toBe(1);
+    });
   })
 
+  describe("scheduling", () => {
+    it("runs timers on the engine scheduler", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("test", engine, {});
+      const callback = vi.fn();
+
+      element.after(100, callback);
+      engine.scheduler.update(100);
+
+      expect(callback).toHaveBeenCalledOnce();
+    });
+
+    it("cancels its tweens and timers when reset or disposed", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("test", engine, {});
+      const tween = element.tween({ rotation: 1 });
+      const timer = element.every(100, () => {});
+
+      element.reset();
+
+      expect(tween.isFinished).toBe(true);
+      expect(timer.isActive).toBe(false);
+
+      const nextTimer = element.after(100, () => {});
+      element.dispose();
+
+      expect(nextTimer.isActive).toBe(false);
+      expect(engine.scheduler.timerCount).toBe(0);
+    });
+  });
+
+  describe("hierarchy", () => {
+    it("attaches and detaches children", () => {
+      const { engine } = createMockEngineInstance();
+      const parent = new Element("parent", engine);
+      const child = new Element("child", engine);
+
+      parent.addChild(child);
+
+      expect(child.parent).toBe(parent);
+      expect(parent.children).toEqual([child]);
+
+      expect(parent.removeChild(child)).toBe(true);
+      expect(parent.removeChild(child)).toBe(false);
+      expect(child.parent).toBeNull();
+      expect(parent.children).toEqual([]);
+    });
+
+    it("moves children between parents", () => {
+      const { engine } = createMockEngineInstance();
+      const first = new Element("first", engine);
+      const second = new Element("second", engine);
+      const child = new Element("child", engine);
+
+      first.addChild(child);
+      child.setParent(second);
+
+      expect(first.children).toEqual([]);
+      expect(second.children).toEqual([child]);
+    });
+
+    it("throws when attached to itself or a descendant", () => {
+      const { engine } = createMockEngineInstance();
+      const parent = new Element("parent", engine);
+      const child = new Element("child", engine);
+
+      parent.addChild(child);
+
+      expect(() => parent.setParent(parent)).toThrowError();
+      expect(() => parent.setParent(child)).toThrowError();
+    });
+
+    it("composes world transforms", () => {
+      const { engine } = createMockEngineInstance();
+      const parent = new Element("parent", engine, { position: new Vector2D(10, 10), rotation: Math.PI / 2, pivot: new Vector2D() });
+      const child = new Element("child", engine, { position: new Vector2D(5, 0), rotation: Math.PI / 4, pivot: new Vector2D() });
+
+      parent.addChild(child);
+
+      expect(child.getWorldPosition().x).toBeCloseTo(10);
+      expect(child.getWorldPosition().y).toBeCloseTo(15);
+      expect(child.getWorldRotation()).toBeCloseTo(Math.PI * 3 / 4);
+    });
+
+    it("converts between local and world space", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, { position: new Vector2D(10, 0), rotation: Math.PI, pivot: new Vector2D() });
+
+      const world = element.toWorld(new Vector2D(2, 3));
+      const local = element.toLocal(world);
+
+      expect(world.x).toBeCloseTo(8);
+      expect(world.y).toBeCloseTo(-3);
+      expect(local.x).toBeCloseTo(2);
+      expect(local.y).toBeCloseTo(3);
+    });
+
+    it("can keep the world transform when reparented", () => {
+      const { engine } = createMockEngineInstance();
+      const parent = new Element("parent", engine, { position: new Vector2D(10, 10), rotation: Math.PI / 2, pivot: new Vector2D() });
+      const child = new Element("child", engine, { position: new Vector2D(15, 10), rotation: Math.PI, pivot: new Vector2D() });
+
+      parent.addChild(child, true);
+
+      expect(child.position.x).toBeCloseTo(0);
+      expect(child.position.y).toBeCloseTo(-5);
+      expect(child.rotation).toBeCloseTo(Math.PI / 2);
+      expect(child.getWorldPosition().x).toBeCloseTo(15);
+      expect(child.getWorldPosition().y).toBeCloseTo(10);
+
+      parent.removeChild(child, true);
+
+      expect(child.position.x).toBeCloseTo(15);
+      expect(child.position.y).toBeCloseTo(10);
+      expect(child.rotation).toBeCloseTo(Math.PI);
+    });
+
+    it("rotates about the pivot", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, { scale: new Vector2D(10, 10), rotation: Math.PI });
+
+      const corner = element.toWorld(new Vector2D());
+
+      expect(element.pivotOffset).toMatchObject({ x: 5, y: 5 });
+      expect(corner.x).toBeCloseTo(10);
+      expect(corner.y).toBeCloseTo(10);
+      expect(element.toLocal(corner).x).toBeCloseTo(0);
+    });
+
+    it("inherits tick and render flags", () => {
+      const { engine } = createMockEngineInstance();
+      const parent = new Element("parent", engine);
+      const child = new Element("child", engine);
+
+      parent.addChild(child);
+      parent.isTickEnabled = false;
+
+      expect(child.isTickEnabledInHierarchy).toBe(false);
+      expect(child.isRenderEnabledInHierarchy).toBe(true);
+    });
+
+    it("ticks and renders children after their parent", () => {
+      const { engine } = createMockEngineInstance({ renderBackend: new RecordingBackend() });
+      const parent = new Element("parent", engine);
+      const first = new Element("first", engine);
+      const second = new Element("second", engine);
+      const order: Array<string> = [];
+
+      parent.addChild(first);
+      parent.addChild(second);
+      [parent, first, second].forEach(element => {
+        vi.spyOn(element, "internalTick" as any).mockImplementation(() => order.push(`tick:${element.name}`));
+        vi.spyOn(element, "internalRender" as any).mockImplementation(() => order.push(`render:${element.name}`));
+      });
+
+      parent.tick(1);
+      parent.render(1);
+
+      expect(order).toEqual(["tick:parent", "tick:first", "tick:second", "render:parent", "render:first", "render:second"]);
+    });
+
+    it("skips children of disabled parents", () => {
+      const { engine } = createMockEngineInstance();
+      const parent = new Element("parent", engine);
+      const child = new Element("child", engine);
+      const tickSpy = vi.spyOn(child, "tick");
+
+      parent.addChild(child);
+      parent.isTickEnabled = false;
+      parent.tick(1);
+
+      expect(tickSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("interpolation", () => {
+    it("interpolates position and rotation without changing them", () => {
+      const backend = new RecordingBackend();
+      const { engine } = createMockEngineInstance({ renderBackend: backend });
+      const element = new Element("element", engine, { scale: new Vector2D(2, 2) });
+
+      element.tick(1);
+      element.position = new Vector2D(10, 0);
+      element.rotation = 1;
+      element.render(0.5);
+      (element as any).applyRenderTransform(backend);
+
+      expect(element.position).toMatchObject({ x: 10, y: 0 });
+      expect(element.rotation).toBe(1);
+      expect(backend.pendingCommands).toEqual([
+        { name: "save", args: [] },
+        { name: "restore", args: [] },
+        { name: "translate", args: [6, 1] },
+        { name: "rotate", args: [0.5] },
+        { name: "translate", args: [-1, -1] },
+      ]);
+    });
+
+    it("is skipped until the next tick after setting the position", () => {
+      const backend = new RecordingBackend();
+      const { engine } = createMockEngineInstance({ renderBackend: backend });
+      const element = new Element("element", engine, { pivot: new Vector2D() });
+
+      element.tick(1);
+      element.setPosition(new Vector2D(10, 0));
+      element.render(0.5);
+      (element as any).applyRenderTransform(backend);
+
+      expect(backend.pendingCommands).toContainEqual({ name: "translate", args: [10, 0] });
+    });
+  });
+
+  describe("kinematics", () => {
+    it("integrates velocity into position", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, { velocity: new Vector2D(10, -5) });
+
+      element.tick(500);
+
+      expect(element.position).toMatchObject({ x: 5, y: -2.5 });
+    });
+
+    it("applies acceleration with semi-implicit Euler", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, { acceleration: new Vector2D(2, 0) });
+
+      element.tick(1000);
+
+      expect(element.velocity).toMatchObject({ x: 2, y: 0 });
+      expect(element.position).toMatchObject({ x: 2, y: 0 });
+    });
+
+    it("applies acceleration with velocity Verlet", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, { acceleration: new Vector2D(2, 0), integrator: "verlet" });
+
+      element.tick(1000);
+      element.tick(1000);
+
+      expect(element.velocity).toMatchObject({ x: 4, y: 0 });
+      expect(element.position).toMatchObject({ x: 4, y: 0 });
+    });
+
+    it("applies drag", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, { velocity: new Vector2D(10, 0), angularVelocity: 10, drag: 1, angularDrag: 2 });
+
+      element.tick(1000);
+
+      expect(element.velocity.x).toBeCloseTo(10 * Math.exp(-1));
+      expect(element.angularVelocity).toBeCloseTo(10 * Math.exp(-2));
+    });
+
+    it("clamps to the max speed", () => {
+      const { engine } = createMockEngineInstance();
+      const element = new Element("element", engine, {
+        velocity: new Vector2D(30, 40),
+        angularVelocity: -5,
+        maxSpeed: 10,
+        maxAngularSpeed: 2,
+      });
+
+      element.tick(1000);
+
+      expect(element.velocity.x).toBeCloseTo(6);
+      expect(element.velocity.y).toBeCloseTo(8);
+      expect(element.angularVelocity).toBe(-2);
+      expect(element.rotation).toBe(-2);
+    });
+  });
 });
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import Layer from "@/elements/Layer";
+import Vector2D from "@/math/Vector2D";
+import RecordingBackend from "@/render/RecordingBackend";
+
+const createBitmap = (width: number, height: number): ImageBitmap => (<unknown>{ width, height, close: () => {} }) as ImageBitmap;
+
+/**
+ * Draws a layer's background over a 100x50 area and collects where each tile
+ * was drawn.
+ * @returns the destination of every tile
+ */
+const renderTiles = (layer: Layer, cameraPosition: Vector2D): Array<Array<number>> => {
+  const backend = new RecordingBackend();
+
+  layer.renderBackground(backend, cameraPosition, new Vector2D(), new Vector2D(100, 50));
+
+  return backend.pendingCommands.map(command => <Array<number>>command.args.slice(5, 7));
+};
+
+describe("Layer", () => {
+  it("has default properties when no properties are passed", () => {
+    const layer = new Layer("test");
+
+    expect(layer.zIndex).toBe(0);
+    expect(layer.isVisible).toBe(true);
+    expect(layer.opacity).toBe(1);
+    expect(layer.parallax).toMatchObject({ x: 1, y: 1 });
+    expect(layer.background).toBeNull();
+    expect(layer.backgroundRepeat).toBe("repeat");
+  });
+
+  it("scales the camera offset by its parallax", () => {
+    const layer = new Layer("test", { parallax: new Vector2D(0.5, 0) });
+
+    expect(layer.getCameraOffset(new Vector2D(100, 40))).toMatchObject({ x: 50, y: 0 });
+  });
+
+  describe("backgrounds", () => {
+    it("tiles to cover the area", () => {
+      const layer = new Layer("test", { background: createBitmap(40, 40), parallax: new Vector2D(0.5, 0.5) });
+
+      expect(renderTiles(layer, new Vector2D(20, 0))).toEqual([
+        [-10, 0], [30, 0], [70, 0],
+        [-10, 40], [30, 40], [70, 40],
+      ]);
+    });
+
+    it("repeats along one axis", () => {
+      const layer = new Layer("test", { background: createBitmap(40, 40), backgroundRepeat: "repeat-x" });
+
+      expect(renderTiles(layer, new Vector2D(0, 10))).toEqual([[0, -10], [40, -10], [80, -10]]);
+    });
+
+    it("draws once without repeating", () => {
+      const layer = new Layer("test", { background: createBitmap(40, 40), backgroundRepeat: "no-repeat" });
+
+      expect(renderTiles(layer, new Vector2D(5, 5))).toEqual([[-5, -5]]);
+    });
+  });
+});
@@ -1,8 +1,9 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import Scene from "@/elements/Scene";
 import { createMockEngineInstance } from "../mocks/Engine.mock";
 import Vector2D from "@/math/Vector2D";
 import Actor from "@/elements/Actor";
+import RecordingBackend from "@/render/RecordingBackend";
 
 describe("Scene", () => {
   describe("constructor", () => {
@@ -20,6 +21,7 @@ describe("Scene", () => {
       expect(scene.camera).toBe(camera);
       expect(scene.environment.background).toBe("transparent");
       expect(scene.environment.gravity.toObject()).toEqual({ x: 0, y: 0 });
+      expect(scene.timeScale).toBe(1);
     });
 
     it("can be created with default properties", () => {
@@ -35,6 +37,56 @@ describe("Scene", () => {
     });
   });
 
+  describe("time scale", () => {
+    it("scales the delta time of actor ticks", async () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      const tickSpy = vi.spyOn(actor, "tick");
+
+      engine.timeScale = 2;
+      scene.timeScale = 0.25;
+      await engine.start();
+      engine.step();
+
+      expect(tickSpy.mock.calls[0][0]).toBeCloseTo(500 / 60);
+    });
+
+    it("freezes actors when zero", async () => {
+      const { engine, camera, scene, actor } = createMockEngineInstance();
+      const hud = new Scene("hud", engine, camera);
+      const hudActor = new Actor("hudActor", hud);
+      const frozenSpy = vi.spyOn(actor, "tick");
+      const hudSpy = vi.spyOn(hudActor, "tick");
+
+      scene.timeScale = 0;
+      await engine.start();
+      engine.step(2);
+
+      expect(frozenSpy).not.toHaveBeenCalled();
+      expect(hudSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("renders frozen actors where they are", async () => {
+      const backend = new RecordingBackend();
+      const { engine, scene, actor } = createMockEngineInstance({ renderBackend: backend });
+      actor.velocity = new Vector2D(600, 0);
+
+      await engine.start();
+      engine.step(3);
+      scene.timeScale = 0;
+      engine.step();
+
+      const translations = [0, 0.5, 1].map(interpolationFactor => {
+        backend.beginFrame();
+        actor.render(interpolationFactor);
+        backend.endFrame();
+
+        return backend.lastFrame.filter(command => command.name === "translate")[1].args;
+      });
+
+      expect(translations).toEqual([[30.5, 0.5], [30.5, 0.5], [30.5, 0.5]]);
+    });
+  });
+
   describe("actors", () => {
     it("can be added to scene", () => {
       const {engine, camera} = createMockEngineInstance();
@@ -43,5 +95,312 @@ describe("Scene", () => {
 
       expect(scene.actors.size).toBe(1);
     });
+
+    it("ticks attached actors through their parent", async () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      const child = new Actor("child", scene);
+      const tickSpy = vi.spyOn(child, "tick");
+
+      actor.addChild(child);
+      await engine.start();
+      engine.step();
+
+      expect(scene.rootActors).toEqual([actor]);
+      expect(tickSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("layers", () => {
+    /**
+     * Renders a scene once and collects the names of the actors it drew.
+     * @returns the actor names in draw order
+     */
+    const getRenderOrder = (scene: Scene): Array<string> => {
+      const order: Array<string> = [];
+      scene.actors.forEach(actor => vi.spyOn(actor, "render").mockImplementation(() => order.push(actor.name)));
+
+      scene.render(0);
+
+      return order;
+    };
+
+    it("has a default layer", () => {
+      const { scene, actor } = createMockEngineInstance();
+
+      expect(Array.from(scene.layers.keys())).toEqual(["default"]);
+      expect(actor.layer).toBe("default");
+      expect(scene.removeLayer("default")).toBe(false);
+    });
+
+    it("throws when adding a layer with an existing name", () => {
+      const { scene } = createMockEngineInstance();
+      scene.addLayer("background");
+
+      expect(() => scene.addLayer("background")).toThrowError();
+    });
+
+    it("draws layers and actors in z-index order", () => {
+      const { scene, actor } = createMockEngineInstance({ renderBackend: new RecordingBackend() });
+      scene.addLayer("background", { zIndex: -1 });
+      new Actor("front", scene, { zIndex: 1 });
+      new Actor("sky", scene, { layer: "background" });
+      new Actor("middle", scene);
+
+      expect(getRenderOrder(scene)).toEqual(["sky", actor.name, "middle", "front"]);
+    });
+
+    it("skips hidden layers and applies opacity", () => {
+      const backend = new RecordingBackend();
+      const { scene } = createMockEngineInstance({ renderBackend: backend });
+      scene.addLayer("hidden", { isVisible: false });
+      scene.addLayer("faded", { opacity: 0.5 });
+      new Actor("ghost", scene, { layer: "hidden" });
+      new Actor("shadow", scene, { layer: "faded" });
+
+      expect(getRenderOrder(scene)).not.toContain("ghost");
+      expect(backend.pendingCommands).toContainEqual({ name: "setAlpha", args: [0.5] });
+    });
+
+    it("draws actors on missing layers on the default layer", () => {
+      const { scene, actor } = createMockEngineInstance({ renderBackend: new RecordingBackend() });
+      scene.addLayer("foreground", { zIndex: 1 });
+      new Actor("player", scene, { layer: "foreground" });
+      scene.removeLayer("foreground");
+
+      expect(getRenderOrder(scene)).toEqual([actor.name, "player"]);
+    });
+
+    it("offsets actors by the layer parallax", () => {
+      const backend = new RecordingBackend();
+      const { scene, camera } = createMockEngineInstance({ renderBackend: backend });
+      scene.addLayer("far", { parallax: new Vector2D(0.5, 0) });
+      const actor = new Actor("mountain", scene, { layer: "far" });
+      camera.position = new Vector2D(100, 100);
+
+      backend.pendingCommands.length = 0;
+      actor.render(0);
+
+      expect(backend.pendingCommands[1]).toEqual({ name: "translate", args: [-50, 0] });
+    });
+  });
+
+  describe("spawning", () => {
+    class Bullet extends Actor { }
+
+    it("creates actors without a GUI section", () => {
+      const { engine, scene } = createMockEngineInstance();
+
+      const bullet = scene.spawn(Bullet, { position: new Vector2D(1, 2) });
+
+      expect(bullet).toBeInstanceOf(Bullet);
+      expect(bullet.name).toBe("Bullet");
+      expect(bullet.prefab).toBe(Bullet);
+      expect(bullet.position).toMatchObject({ x: 1, y: 2 });
+      expect(scene.actors.get(bullet.ID)).toBe(bullet);
+      expect(engine.parameterGUI.baseSection.getSubsectionByTitle(scene.name).subsections.length).toBe(1);
+    });
+
+    it("reuses and resets despawned actors", () => {
+      const { scene } = createMockEngineInstance();
+      const bullet = scene.spawn(Bullet, { velocity: new Vector2D(5, 0) });
+      const resetSpy = vi.spyOn(bullet, "onReset");
+      bullet.rotation = 2;
+      bullet.isRenderEnabled = false;
+
+      expect(bullet.despawn()).toBe(true);
+      expect(bullet.despawn()).toBe(false);
+      expect(scene.actors.has(bullet.ID)).toBe(false);
+      expect(scene.getPoolSize(Bullet)).toBe(1);
+
+      const reused = scene.spawn(Bullet, { position: new Vector2D(3, 3) });
+
+      expect(reused).toBe(bullet);
+      expect(reused.position).toMatchObject({ x: 3, y: 3 });
+      expect(reused.velocity).toMatchObject({ x: 0, y: 0 });
+      expect(reused.rotation).toBe(0);
+      expect(reused.isRenderEnabled).toBe(true);
+      expect(resetSpy).toHaveBeenCalledTimes(1);
+      expect(scene.getPoolSize(Bullet)).toBe(0);
+    });
+
+    it("calls spawn and despawn hooks", () => {
+      const { scene } = createMockEngineInstance();
+      scene.prewarm(Bullet, 1);
+      const bullet = scene.spawn(Bullet);
+      const despawnSpy = vi.spyOn(bullet, "onDespawn");
+      const spawnSpy = vi.spyOn(bullet, "onSpawn");
+
+      bullet.despawn();
+      scene.spawn(Bullet, { zIndex: 2 });
+
+      expect(despawnSpy).toHaveBeenCalledTimes(1);
+      expect(spawnSpy).toHaveBeenCalledWith({ zIndex: 2 });
+    });
+
+    it("takes the descendants of despawned actors out of the scene", () => {
+      const { engine, scene } = createMockEngineInstance();
+      const bullet = scene.spawn(Bullet);
+      const trail = new Actor("trail", scene, { tags: ["effect"] });
+      const onKeyDown = vi.fn();
+      trail.setParent(bullet);
+      bullet.registerEventCallback("onkeydown", onKeyDown);
+      trail.registerEventCallback("onkeydown", onKeyDown);
+
+      bullet.despawn();
+
+      expect(scene.actors.has(trail.ID)).toBe(false);
+      expect(scene.getGroup("effect").has(trail)).toBe(false);
+      expect(trail.parent).toBe(bullet);
+      expect(engine.eventHandler.getRegisteredCallbacks("onkeydown")).not.toContain(onKeyDown);
+
+      scene.spawn(Bullet);
+
+      expect(scene.actors.get(trail.ID)).toBe(trail);
+      expect(scene.getGroup("effect").has(trail)).toBe(true);
+      expect(engine.eventHandler.getRegisteredCallbacks("onkeydown").filter(callback => callback === onKeyDown).length).toBe(2);
+    });
+
+    it("cancels the tweens and timers of despawned actors", () => {
+      const { scene } = createMockEngineInstance();
+      const bullet = scene.spawn(Bullet);
+      const tween = bullet.tween({ rotation: 1 });
+      const timer = bullet.every(100, () => {});
+
+      bullet.despawn();
+
+      expect(tween.isFinished).toBe(true);
+      expect(timer.isActive).toBe(false);
+      expect(scene.scheduler.timerCount).toBe(0);
+    });
+
+    it("does not despawn actors that were not spawned", () => {
+      const { scene, actor } = createMockEngineInstance();
+
+      expect(actor.despawn()).toBe(false);
+      expect(scene.actors.has(actor.ID)).toBe(true);
+    });
+
+    it("prewarms pools", async () => {
+      const { engine, scene } = createMockEngineInstance();
+
+      scene.prewarm(Bullet, 3);
+      const bullet = scene.spawn(Bullet);
+      await engine.start();
+
+      expect(scene.getPoolSize(Bullet)).toBe(2);
+      expect(scene.actors.size).toBe(2);
+      expect(bullet.isPreloaded).toBe(true);
+    });
+
+    it("preloads actors spawned after the scene has started", async () => {
+      const { engine, scene } = createMockEngineInstance();
+      await engine.start();
+
+      const bullet = scene.spawn(Bullet);
+      await new Promise(resolve => setTimeout(resolve));
+
+      expect(bullet.isPreloaded).toBe(true);
+    });
+
+    it("holds spawned actors back until they are preloaded", async () => {
+      const backend = new RecordingBackend();
+      const { engine, scene } = createMockEngineInstance({ renderBackend: backend });
+      let finishPreload: () => void = () => { };
+      class Rocket extends Actor {
+        override preload = () => new Promise<void>(resolve => finishPreload = resolve);
+      }
+      await engine.start();
+
+      const rocket = scene.spawn(Rocket, { velocity: new Vector2D(600, 0) });
+      const tickSpy = vi.spyOn(rocket, "tick");
+      const renderSpy = vi.spyOn(rocket, "render");
+      engine.step();
+      scene.render(1);
+
+      expect(tickSpy).not.toHaveBeenCalled();
+      expect(renderSpy).not.toHaveBeenCalled();
+
+      finishPreload();
+      await new Promise(resolve => setTimeout(resolve));
+      engine.step();
+      scene.render(1);
+
+      expect(tickSpy).toHaveBeenCalled();
+      expect(renderSpy).toHaveBeenCalled();
+    });
+
+    it("reports spawned actors that fail to preload", async () => {
+      const { engine, scene } = createMockEngineInstance();
+      const error = new Error("missing texture");
+      const onPreloadError = vi.fn();
+      class Broken extends Actor {
+        override preload = () => Promise.reject(error);
+      }
+      engine.registerEventCallback("onpreloaderror", onPreloadError);
+      await engine.start();
+
+      const broken = scene.spawn(Broken);
+      await new Promise(resolve => setTimeout(resolve));
+
+      expect(onPreloadError).toHaveBeenCalledWith({ type: "onpreloaderror", error, name: "Broken", ID: broken.ID });
+    });
+  });
+
+  describe("queries", () => {
+    it("finds actors by tag", () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      const enemy = new Actor("enemy", scene, { tags: ["enemy", "flying"] });
+
+      actor.addTag("enemy");
+
+      expect(scene.getActorsByTag("enemy")).toEqual([enemy, actor]);
+      expect(engine.getActorsByTag("flying")).toEqual([enemy]);
+
+      expect(enemy.removeTag("enemy")).toBe(true);
+      expect(enemy.removeTag("enemy")).toBe(false);
+      expect(scene.getActorsByTag("enemy")).toEqual([actor]);
+    });
+
+    it("keeps groups up to date", async () => {
+      const { engine, scene } = createMockEngineInstance();
+      class Bullet extends Actor { }
+      const bullets = scene.getGroup("bullet");
+      await engine.start();
+
+      const first = scene.spawn(Bullet, { tags: ["bullet"] });
+      const second = scene.spawn(Bullet, { tags: ["bullet"] });
+      expect(bullets.size).toBe(2);
+
+      first.despawn();
+      second.destroy();
+      engine.step();
+      expect(bullets.size).toBe(0);
+
+      expect(scene.spawn(Bullet, { tags: ["bullet"] })).toBe(first);
+      expect(Array.from(bullets)).toEqual([first]);
+
+      first.reset();
+      expect(bullets.size).toBe(0);
+    });
+
+    it("finds actors by name and type", () => {
+      const { engine, scene, actor } = createMockEngineInstance();
+      class Enemy extends Actor { }
+      const enemy = new Enemy("enemy", scene);
+
+      expect(scene.getActorsByName(actor.name)).toEqual([actor]);
+      expect(engine.getActorsByName("enemy")).toEqual([enemy]);
+      expect(scene.getActorsByType(Enemy)).toEqual([enemy]);
+      expect(scene.getActorsByType(Actor)).toEqual([actor, enemy]);
+    });
+
+    it("finds actors in a region", () => {
+      const { scene, actor } = createMockEngineInstance();
+      const far = new Actor("far", scene, { position: new Vector2D(100, 100), scale: new Vector2D(10, 10) });
+      const rotated = new Actor("rotated", scene, { position: new Vector2D(20, 0), scale: new Vector2D(2, 20), rotation: Math.PI / 2 });
+
+      expect(scene.getActorsInRegion(new Vector2D(0, 0), new Vector2D(12, 15))).toEqual([actor, rotated]);
+      expect(scene.getActorsInRegion(new Vector2D(105, 105), new Vector2D(1, 1))).toEqual([far]);
+    });
   });
-})
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+import StateMachine from "@/elements/StateMachine";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+type PlayerState = "idle" | "run" | "jump";
+type PlayerEvent = "move" | "stop" | "jump" | "land";
+
+/**
+ * Creates a player state machine attached to a mock actor.
+ * @returns the machine, its actor and a flag read by the jump guard
+ */
+const createPlayer = (states: Partial<StateDefinitions<PlayerState, PlayerEvent>> = {}) => {
+  const { actor } = createMockEngineInstance();
+  const ground = { isGrounded: true };
+  const machine = new StateMachine<PlayerState, PlayerEvent>("idle", {
+    idle: { on: { move: "run", jump: { target: "jump", guard: () => ground.isGrounded } }, textureID: "idle" },
+    run: { on: { stop: "idle", jump: "jump" }, textureID: "run" },
+    jump: { on: { land: "idle" } },
+    ...states,
+  });
+
+  actor.addTexture("idle", <ImageBitmap><unknown>{ width: 8, height: 8 });
+  actor.addTexture("run", <ImageBitmap><unknown>{ width: 8, height: 8 });
+  actor.addComponent(machine);
+
+  return { actor, ground, machine };
+};
+
+describe("StateMachine", () => {
+  it("enters its initial state when attached", () => {
+    const enter = vi.fn();
+    const { actor, machine } = createPlayer({ idle: { enter, textureID: "idle" } });
+
+    expect(machine.current).toBe("idle");
+    expect(enter).toHaveBeenCalledWith(null, machine);
+    expect(actor.textureID).toBe("idle");
+  });
+
+  it("changes state on events and calls its handlers", () => {
+    const exit = vi.fn();
+    const enter = vi.fn();
+    const onChange = vi.fn();
+    const { actor } = createMockEngineInstance();
+    const machine = actor.addComponent(new StateMachine<PlayerState, PlayerEvent>("idle", {
+      idle: { on: { move: "run" }, exit },
+      run: { enter },
+      jump: {},
+    }, { onChange }));
+
+    expect(machine.send("move")).toBe(true);
+    expect(machine.send("move")).toBe(false);
+
+    expect(machine.current).toBe("run");
+    expect(exit).toHaveBeenCalledWith("run", machine);
+    expect(enter).toHaveBeenCalledWith("idle", machine);
+    expect(onChange).toHaveBeenLastCalledWith("idle", "run");
+  });
+
+  it("only takes transitions whose guard passes", () => {
+    const { ground, machine } = createPlayer();
+    ground.isGrounded = false;
+
+    expect(machine.can("jump")).toBe(false);
+    expect(machine.send("jump")).toBe(false);
+
+    ground.isGrounded = true;
+
+    expect(machine.send("jump")).toBe(true);
+    expect(machine.current).toBe("jump");
+  });
+
+  it("switches the actor's texture to bound states", () => {
+    const { actor, machine } = createPlayer();
+
+    machine.send("move");
+    expect(actor.textureID).toBe("run");
+
+    machine.send("jump");
+    expect(actor.textureID).toBe("run");
+  });
+
+  it("binds textures once the actor has them", () => {
+    const { actor } = createMockEngineInstance();
+    actor.addComponent(new StateMachine<PlayerState, PlayerEvent>("idle", { idle: { textureID: "idle" }, run: {}, jump: {} }));
+
+    expect(actor.textureID).toBe("");
+    expect(() => actor.tick(16)).not.toThrow();
+
+    actor.addTexture("idle", <ImageBitmap><unknown>{ width: 8, height: 8 });
+    actor.tick(16);
+
+    expect(actor.textureID).toBe("idle");
+  });
+
+  it("ticks the current state and tracks time spent in it", () => {
+    const tick = vi.fn();
+    const { actor, machine } = createPlayer({ idle: { on: { move: "run" } }, run: { tick } });
+
+    machine.send("move");
+    actor.tick(16);
+    actor.tick(16);
+
+    expect(tick).toHaveBeenCalledWith(16, machine);
+    expect(machine.stateTime).toBe(32);
+  });
+
+  it("remembers previous states and goes back", () => {
+    const { machine } = createPlayer();
+
+    machine.send("move");
+    machine.send("jump");
+
+    expect(machine.history).toEqual(["idle", "run"]);
+    expect(machine.previous).toBe("run");
+
+    expect(machine.back()).toBe(true);
+    expect(machine.current).toBe("run");
+    expect(machine.previous).toBe("jump");
+    expect(machine.history).toEqual(["idle"]);
+
+    machine.back();
+    expect(machine.back()).toBe(false);
+    expect(machine.current).toBe("idle");
+  });
+
+  it("throws when changing state while detached", () => {
+    const machine = new StateMachine<"idle" | "run">("idle", { idle: {}, run: {} });
+
+    expect(() => machine.transition("run")).toThrowError();
+  });
+
+  it("shows its state in the actor's GUI section", () => {
+    const { actor, machine } = createPlayer();
+    const section = actor.engine.parameterGUI.baseSection
+      .getSubsectionByTitle("testScene")
+      .getSubsectionByTitle("testActor")
+      .getSubsectionByTitle("StateMachine");
+
+    machine.send("move");
+
+    expect(section.parameters.get("State")!()).toBe("run");
+  });
+});
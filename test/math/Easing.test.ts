@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import Easing from "@/math/Easing";
+
+describe("Easing", () => {
+  it("starts at 0 and ends at 1", () => {
+    Object.entries(Easing).forEach(([name, easing]) => {
+      expect(easing(0), name).toBeCloseTo(0);
+      expect(easing(1), name).toBeCloseTo(1);
+    });
+  });
+
+  it("eases in slowly and out quickly", () => {
+    expect(Easing.quadIn(0.5)).toBeCloseTo(0.25);
+    expect(Easing.quadOut(0.5)).toBeCloseTo(0.75);
+    expect(Easing.cubicInOut(0.25)).toBeCloseTo(0.0625);
+    expect(Easing.cubicInOut(0.75)).toBeCloseTo(0.9375);
+  });
+
+  it("overshoots with back easing", () => {
+    expect(Easing.backIn(0.2)).toBeLessThan(0);
+    expect(Easing.backOut(0.8)).toBeGreaterThan(1);
+  });
+});
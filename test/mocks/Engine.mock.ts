@@ -4,25 +4,20 @@ import Scene from "@/elements/Scene";
 import Actor from "@/elements/Actor";
 
 /**
- * Creates a new instance of an engine with an attached camera, scene, and actor.
+ * Creates a new headless instance of an engine with an attached camera, scene,
+ * and actor.
  * @param options optional arguments to pass to the engine
+ * @param canvas the canvas to attach the engine to. Defaults to a new canvas.
  * @returns
  */
-export const createMockEngineInstance = (options: EngineOptions = {}): {engine: Engine, camera: Camera, scene: Scene, actor: Actor} => {
+export const createMockEngineInstance = (options: EngineOptions = {}, canvas: HTMLCanvasElement = document.createElement("canvas")): {engine: Engine, camera: Camera, scene: Scene, actor: Actor} => {
   global.ResizeObserver = class ResizeObserver {
     observe() {}
     unobserve() {}
     disconnect() {}
   }
 
-  const canvas = document.createElement("canvas");
-
-  const engine = new Engine(canvas, options);
-  engine.start = async (): Promise<void> => {
-    if(engine.isStarted) throw new Error();
-    await Promise.all(Array.from(engine.scenes.values()).map((scene) => scene.start()));
-    engine.isStarted = true;
-  };
+  const engine = new Engine(canvas, { isHeadless: true, ...options });
   const camera = new Camera("testCamera", engine);
   const scene = new Scene("testScene", engine, camera);
   const actor = new Actor("testActor", scene);
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import Canvas2DBackend from "@/render/Canvas2DBackend";
+
+/**
+ * Creates a stand-in 2D context with spied drawing methods.
+ * @returns a partial context cast to a CanvasRenderingContext2D
+ */
+const createMockContext = (): CanvasRenderingContext2D => (<unknown>{
+  save: vi.fn(),
+  restore: vi.fn(),
+  setTransform: vi.fn(),
+  translate: vi.fn(),
+  drawImage: vi.fn(),
+  fillRect: vi.fn(),
+  fillText: vi.fn(),
+  measureText: vi.fn(() => ({ width: 42 })),
+}) as CanvasRenderingContext2D;
+
+describe("Canvas2DBackend", () => {
+  it("is unavailable without a context", () => {
+    expect(new Canvas2DBackend(null).isAvailable).toBe(false);
+  });
+
+  it("is unavailable when created from a canvas without 2D support", () => {
+    const canvas = document.createElement("canvas");
+
+    expect(Canvas2DBackend.fromCanvas(canvas).isAvailable).toBe(false);
+  });
+
+  it("forwards drawing calls to the context", () => {
+    const ctx = createMockContext();
+    const backend = new Canvas2DBackend(ctx);
+    const image = {} as ImageBitmap;
+
+    backend.save();
+    backend.translate(1, 2);
+    backend.fillRect(0, 0, 10, 20);
+    backend.drawImage(image, 0, 0, 1, 1, 2, 2, 3, 3);
+    backend.restore();
+
+    expect(backend.isAvailable).toBe(true);
+    expect(ctx.save).toHaveBeenCalled();
+    expect(ctx.translate).toHaveBeenCalledWith(1, 2);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 10, 20);
+    expect(ctx.drawImage).toHaveBeenCalledWith(image, 0, 0, 1, 1, 2, 2, 3, 3);
+    expect(ctx.restore).toHaveBeenCalled();
+  });
+
+  it("applies state to the context", () => {
+    const ctx = createMockContext();
+    const backend = new Canvas2DBackend(ctx);
+
+    backend.setFillStyle("red");
+    backend.setAlpha(0.5);
+    backend.setCompositeOperation("multiply");
+    backend.setImageSmoothing(false);
+
+    expect(ctx.fillStyle).toBe("red");
+    expect(ctx.globalAlpha).toBe(0.5);
+    expect(backend.getAlpha()).toBe(0.5);
+    expect(ctx.globalCompositeOperation).toBe("multiply");
+    expect(ctx.imageSmoothingEnabled).toBe(false);
+  });
+
+  it("measures text width", () => {
+    const backend = new Canvas2DBackend(createMockContext());
+
+    expect(backend.measureText("test")).toBe(42);
+  });
+});
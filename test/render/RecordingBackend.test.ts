@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from "vitest";
+import RecordingBackend from "@/render/RecordingBackend";
+import Actor from "@/elements/Actor";
+import Vector2D from "@/math/Vector2D";
+import { createMockEngineInstance } from "../mocks/Engine.mock";
+
+const createBitmap = (width: number, height: number): ImageBitmap => (<unknown>{ width, height, close: () => {} }) as ImageBitmap;
+
+describe("RecordingBackend", () => {
+  describe("recording", () => {
+    it("records draw calls into frames", () => {
+      const backend = new RecordingBackend();
+
+      backend.beginFrame();
+      backend.setFillStyle("red");
+      backend.fillRect(0, 0, 10, 20);
+      backend.endFrame();
+
+      expect(backend.frames.length).toBe(1);
+      expect(backend.lastFrame).toEqual([
+        { name: "setFillStyle", args: ["red"] },
+        { name: "fillRect", args: [0, 0, 10, 20] },
+      ]);
+    });
+
+    it("describes images by their size", () => {
+      const backend = new RecordingBackend();
+
+      backend.beginFrame();
+      backend.drawImage(createBitmap(64, 32), 0, 0, 32, 32, 1, 2, 32, 32);
+      backend.endFrame();
+
+      expect(backend.lastFrame[0].args[0]).toBe("image(64x32)");
+    });
+
+    it("rounds numeric arguments", () => {
+      const backend = new RecordingBackend({ precision: 2 });
+
+      backend.beginFrame();
+      backend.translate(1 / 3, -0.0001);
+      backend.endFrame();
+
+      expect(backend.lastFrame[0].args).toEqual([0.33, 0]);
+    });
+
+    it("keeps a limited number of frames", () => {
+      const backend = new RecordingBackend({ maxFrames: 2 });
+
+      for (let i = 0; i < 3; i++) {
+        backend.beginFrame();
+        backend.rotate(i);
+        backend.endFrame();
+      }
+
+      expect(backend.frames.length).toBe(2);
+      expect(backend.frames[0][0].args).toEqual([1]);
+    });
+
+    it("does not record while disabled", () => {
+      const backend = new RecordingBackend();
+
+      backend.isRecording = false;
+      backend.beginFrame();
+      backend.save();
+      backend.endFrame();
+
+      expect(backend.frames.length).toBe(0);
+    });
+
+    it("forwards calls to an available target", () => {
+      const target = new RecordingBackend();
+      const fillRectSpy = vi.spyOn(target, "fillRect");
+      const backend = new RecordingBackend({ target });
+
+      backend.beginFrame();
+      backend.fillRect(1, 2, 3, 4);
+      backend.endFrame();
+
+      expect(fillRectSpy).toHaveBeenCalledWith(1, 2, 3, 4);
+      expect(target.frames.length).toBe(1);
+    });
+
+    it("tracks alpha across saved states", () => {
+      const backend = new RecordingBackend();
+
+      backend.setAlpha(0.5);
+      backend.save();
+      backend.setAlpha(backend.getAlpha() * 0.5);
+      expect(backend.getAlpha()).toBe(0.25);
+
+      backend.restore();
+      expect(backend.getAlpha()).toBe(0.5);
+    });
+
+    it("serializes frames into readable lines", () => {
+      const backend = new RecordingBackend();
+
+      backend.beginFrame();
+      backend.fillText("hello", 1, 2);
+      backend.endFrame();
+
+      expect(backend.serialize()).toBe('[\n  "fillText(\\"hello\\", 1, 2)"\n]\n');
+    });
+  });
+
+  describe("golden frames", () => {
+    it("matches the scene render", async () => {
+      const backend = new RecordingBackend();
+      const { engine, camera, scene } = createMockEngineInstance({ renderBackend: backend });
+
+      scene.position = new Vector2D(10, 10);
+      scene.scale = new Vector2D(320, 240);
+      scene.environment.background = "#110022";
+      camera.zoom = 2;
+
+      const actor = new Actor("character", scene, { position: new Vector2D(40, 50), scale: new Vector2D(64, 64), isGravityEnabled: false });
+      actor.addTexture("walk", createBitmap(64, 64), new Vector2D(32, 32), 20);
+      actor.textureID = "walk";
+
+      await engine.start();
+      engine.step(3);
+
+      await expect(backend.serialize()).toMatchFileSnapshot("./__golden__/scene.json");
+    });
+  });
+});
@@ -46,6 +46,16 @@ describe("EventHandler", () => {
       eventHandler.unregisterEventCallback("onmousedown", callback);
       expect(eventHandler.getRegisteredCallbacks("onmousedown").length).toBe(0);
     });
+
+    it("ignores unregistering a callback that was never registered", () => {
+      const eventHandler = new EventHandler(canvas);
+      const callback: EngineEventCallback<"onmousedown"> = () => {};
+
+      eventHandler.registerEventCallback("onmousedown", callback);
+      eventHandler.unregisterEventCallback("onmousedown", () => {});
+
+      expect(eventHandler.getRegisteredCallbacks("onmousedown")).toEqual([callback]);
+    });
   });
 
   describe("event queue", () => {
@@ -218,4 +228,86 @@ describe("EventHandler", () => {
       expect(onmousedownBSpy).toHaveBeenCalled();
     });
   });
+
+  describe("focus", () => {
+    it("dispatches onblur and onfocus when the window loses and regains focus", () => {
+      const eventHandler = new EventHandler(canvas);
+      const onblur = vi.fn(), onfocus = vi.fn();
+      eventHandler.registerEventCallback("onblur", onblur);
+      eventHandler.registerEventCallback("onfocus", onfocus);
+
+      window.dispatchEvent(new Event("blur"));
+      window.dispatchEvent(new Event("focus"));
+
+      expect(onblur).toHaveBeenCalledWith({ type: "onblur", reason: "focus" });
+      expect(onfocus).toHaveBeenCalledWith({ type: "onfocus", reason: "focus" });
+
+      eventHandler.destroy();
+    });
+
+    it("dispatches onblur when the page is hidden", () => {
+      const eventHandler = new EventHandler(canvas);
+      const onblur = vi.fn();
+      eventHandler.registerEventCallback("onblur", onblur);
+      const visibilitySpy = vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+
+      document.dispatchEvent(new Event("visibilitychange"));
+
+      expect(onblur).toHaveBeenCalledWith({ type: "onblur", reason: "visibility" });
+
+      visibilitySpy.mockRestore();
+      eventHandler.destroy();
+    });
+
+    it("releases held input on blur", () => {
+      const eventHandler = new EventHandler(canvas);
+      eventHandler.queueEvent("onkeydown", { type: "onkeydown", key: "a" });
+      eventHandler.queueEvent("onmousedown", { type: "onmousedown", button: 0, x: 0, y: 0 });
+
+      window.dispatchEvent(new Event("blur"));
+
+      expect(eventHandler.getQueuedPayloads("whilekeydown").length).toBe(0);
+      expect(eventHandler.getQueuedPayloads("whilemousedown").length).toBe(0);
+
+      eventHandler.destroy();
+    });
+
+    it("can keep held input on blur", () => {
+      const eventHandler = new EventHandler(canvas, { isHeldInputClearedOnBlur: false });
+      eventHandler.queueEvent("onkeydown", { type: "onkeydown", key: "a" });
+
+      window.dispatchEvent(new Event("blur"));
+
+      expect(eventHandler.getQueuedPayloads("whilekeydown").length).toBe(1);
+
+      eventHandler.destroy();
+    });
+
+    it("stops listening for focus changes once destroyed", () => {
+      const eventHandler = new EventHandler(canvas);
+      const onblur = vi.fn();
+      eventHandler.registerEventCallback("onblur", onblur);
+
+      eventHandler.destroy();
+      window.dispatchEvent(new Event("blur"));
+
+      expect(onblur).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("coordinate mapping", () => {
+    it("maps mouse positions through the canvas point callback", () => {
+      const canvas = document.createElement("canvas");
+      const eventHandler = new EventHandler(canvas);
+      eventHandler.setCanvasPointCallback((x, y) => ({ x: x / 2, y: y / 2 }));
+
+      const event = new MouseEvent("mousedown", { button: 0 });
+      Object.defineProperties(event, { offsetX: { value: 100 }, offsetY: { value: 40 } });
+      canvas.dispatchEvent(event);
+
+      expect(eventHandler.getQueuedPayloads("onmousedown")[0]).toEqual({ type: "onmousedown", button: 0, x: 50, y: 20 });
+
+      eventHandler.destroy();
+    });
+  });
 });
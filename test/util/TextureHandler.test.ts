@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import "./imageBitmap.mock";
 import TextureHandler from "@/util/TextureHandler";
 import testImage from "./testTexture.png";
@@ -28,6 +28,21 @@ describe("TextureHandler", () => {
       expect(textureHandler.getTextureCache().size).toBe(1);
       expect(textureHandler.getRegisteredTexture("test")).toBeInstanceOf(ImageBitmap);
     });
+
+    it("reports when loading starts and finishes", async () => {
+      const onLoadStart = vi.fn();
+      const onLoad = vi.fn();
+      const textureHandler = new TextureHandler({ onLoadStart, onLoad });
+
+      const loading = textureHandler.registerTextureFromPath("test", testImage);
+
+      expect(onLoadStart).toHaveBeenCalledWith("test");
+      expect(onLoad).not.toHaveBeenCalled();
+
+      await loading;
+
+      expect(onLoad).toHaveBeenCalledWith("test");
+    });
   });
 
   describe("registering a texture from bitmap", () => {
@@ -71,6 +86,19 @@ describe("TextureHandler", () => {
     });
   });
 
+  describe("destroying", () => {
+    it("closes and removes all cached textures", async () => {
+      const textureHandler = new TextureHandler();
+      const bitmap = await textureHandler.registerTextureFromPath("test", testImage);
+      const closeSpy = vi.spyOn(bitmap, "close");
+
+      textureHandler.destroy();
+
+      expect(closeSpy).toHaveBeenCalled();
+      expect(textureHandler.getTextureCache().size).toBe(0);
+    });
+  });
+
   describe("retrieving a texture", () => {
     it("can retrieve a texture from the cache", async () => {
       const textureHandler = new TextureHandler();